@@ -2,8 +2,7 @@ import ReactDOM from 'react-dom/client';
 import { App } from './components/App';
 import './style.css';
 import * as Sentry from '@sentry/browser';
-import { sentryConsentIntegration } from '../../src/index';
-import { zaraz } from 'zaraz-ts';
+import { sentryConsentIntegration, zarazConsentAdapter } from '../../src/index';
 import { purposeMapping, initFakeZarazShort } from './fake-zaraz.js';
 
 initFakeZarazShort();
@@ -39,20 +38,7 @@ Sentry.init({
     }),
     // The consent integration will control when replay is active via sample rates
     sentryConsentIntegration({
-      consentStateGetters: {
-        functional: () => zaraz.consent.get('YYY') ?? false,
-        analytics: () => zaraz.consent.get('USeX') ?? false,
-        marketing: () => zaraz.consent.get('dqVA') ?? false,
-        preferences: () => zaraz.consent.get('NNN') ?? false,
-      },
-      onConsentChange: (trigger) => {
-        document.addEventListener('zarazConsentChoicesUpdated', trigger);
-        document.addEventListener('zarazConsentAPIReady', trigger);
-        return () => {
-          document.removeEventListener('zarazConsentChoicesUpdated', trigger);
-          document.removeEventListener('zarazConsentAPIReady', trigger);
-        };
-      },
+      ...zarazConsentAdapter({ purposeMapping }),
       debug: true,
     }),
   ],
@@ -1,14 +1,92 @@
 // Import from Sentry browser for broader compatibility
 import * as Sentry from '@sentry/browser';
+import { defineIntegration } from '@sentry/core';
 import type {
+  Client,
+  ErrorEvent,
   Event,
   EventHint,
   Integration as SentryIntegration,
+  IntegrationFn,
+  Scope,
+  TransactionEvent,
 } from '@sentry/core';
 
-import { logEvent } from './eventLogger';
-import { SENTRY_DEFAULT_CONFIG } from './configurationKeys';
-import { buildTrackedConfigObject } from './utils';
+import {
+  EventQueue,
+  type EventQueueOptions,
+  type QueuedEvent,
+} from './eventQueue.js';
+import type { QueueStorage } from './queueStorage.js';
+import {
+  DEFAULT_CONSENT_PURPOSES,
+  SENTRY_DEFAULT_CONFIG,
+  type DefaultConsentPurpose,
+} from './configurationKeys.js';
+import {
+  buildPolicyConfig,
+  resolveConsentPolicy,
+  validateConsentPolicy,
+  type ConsentPolicy,
+} from './consentPolicy.js';
+import {
+  adaptPolicyConfig,
+  detectSdkMajorVersion,
+  getAdaptedOptionKeys,
+  getSdkOptionAdapter,
+  type SdkOptionAdapter,
+} from './sdkCompatibility.js';
+import {
+  createConsentEventEmitter,
+  diffConsentStates,
+  type ConsentIntegrationEventListener,
+  type ConsentIntegrationEventName,
+} from './consentEvents.js';
+import {
+  ConsentLedger,
+  memoryLedgerStorage,
+  type ConsentLedgerEntry,
+  type ConsentLedgerOptions,
+  type ConsentLedgerTrigger,
+} from './consentLedger.js';
+import {
+  ConsentTransitionEngine,
+  type ConsentTransitionHandler,
+  type ConsentTransitionKind,
+} from './consentTransitions.js';
+import {
+  createLogger,
+  isDebugEnvironment,
+  type Logger,
+  type LoggerOptions,
+} from './logger.js';
+import {
+  removeDeniedEventData,
+  resolveDataClassification,
+  validateDataClassification,
+  type DataClassification,
+} from './dataClassification.js';
+import {
+  ScopeDataShadow,
+  readScopeSnapshot,
+  type ScopeSnapshot,
+} from './scopeShadow.js';
+import { createPiiScrubber, type PiiScrubbingOptions } from './piiScrubbing.js';
+import {
+  createUrlSanitizer,
+  type UrlSanitizationOptions,
+} from './urlSanitization.js';
+import {
+  enableConsentGates,
+  IntegrationToggler,
+  resolveIntegrationToggles,
+  type IntegrationToggleEntry,
+} from './integrationToggles.js';
+import {
+  buildTrackedConfigObject,
+  isThenable,
+  validateFeaturePurposes,
+} from './utils.js';
 
 /**
  * Sentry Consent Integration
@@ -65,40 +143,105 @@ import { buildTrackedConfigObject } from './utils';
 // Define Integration interface to match Sentry's interface
 export interface Integration extends SentryIntegration {
   name: string;
-  setupOnce?(): void;
+  setup?(client: Client): void;
+  afterAllSetup?(client: Client): void;
   processEvent?(
     event: Event,
-    hint: EventHint
+    hint: EventHint,
+    client: Client
   ): Event | null | PromiseLike<Event | null>;
 }
 
-export interface ConsentState {
-  functional?: boolean;
-  analytics?: boolean;
-  marketing?: boolean;
-  preferences?: boolean;
-}
+/**
+ * Consent status per purpose
+ * Typed over the purpose names in use, the four built-in purposes by default
+ */
+export type ConsentState<P extends string = DefaultConsentPurpose> = {
+  [K in P]?: boolean;
+};
+
+/**
+ * Result of a consent state getter
+ * `undefined` and `'pending'` mean the user has not decided yet, which is
+ * different from a denial (`false`)
+ */
+export type ConsentDecision = boolean | undefined | 'pending';
+
+export type ConsentStateGetters<P extends string = DefaultConsentPurpose> = {
+  [K in P]?: () => ConsentDecision | PromiseLike<ConsentDecision>;
+};
+
+export type ConsentStateListener<P extends string = DefaultConsentPurpose> = (
+  consentState: ConsentState<P>
+) => void;
+
+/**
+ * Built-in behaviours once `consentTimeout` expires without a decision
+ * - deny-all: treat every purpose as denied and discard queued events
+ * - grant-functional-only: grant the functional purpose only, e.g. for error
+ *   monitoring based on legitimate interest
+ * - wait: never time out and keep queuing until a decision arrives
+ */
+export type ConsentTimeoutStrategy =
+  'deny-all' | 'grant-functional-only' | 'wait';
+
+export interface ConsentTimeoutContext<
+  P extends string = DefaultConsentPurpose,
+> {
+  /**
+   * Milliseconds since consent monitoring started
+   */
+  elapsed: number;
 
-export interface ConsentStateGetters {
-  functional?: () => boolean;
-  analytics?: () => boolean;
-  marketing?: () => boolean;
-  preferences?: () => boolean;
+  /**
+   * Purposes decided so far; undecided purposes are missing
+   */
+  consentState: ConsentState<P>;
+
+  /**
+   * Events currently held in the pre-consent queue
+   */
+  queuedEvents: QueuedEvent[];
 }
 
-export interface SentryConsentIntegrationOptions {
+/**
+ * Decides what happens when `consentTimeout` expires. A custom callback can
+ * return a built-in strategy or the consent state to apply; returning 'wait'
+ * calls it again after another `consentTimeout`.
+ */
+export type ConsentTimeoutFallback<P extends string = DefaultConsentPurpose> =
+  | ConsentTimeoutStrategy
+  | ((
+      context: ConsentTimeoutContext<P>
+    ) => ConsentTimeoutStrategy | ConsentState<P>);
+
+export interface SentryConsentIntegrationOptions<
+  P extends string = DefaultConsentPurpose,
+> {
   /**
    * Whether to log debug information to console
+   * Shorthand for `logger: { level: 'debug' }`
    * @default false
    */
   debug?: boolean;
 
+  /**
+   * Level, sinks and redaction of the integration's log output
+   * @default { level: 'silent', sinks: [consoleSink()] }, or level 'debug'
+   * with the `debug` option or in a debug environment
+   */
+  logger?: LoggerOptions;
+
   /**
    * Functions to get current consent state for each purpose
-   * Each function should return a boolean indicating consent status
-   * Only provide functions for purposes you want to track
+   * Each function should return a boolean indicating consent status, or
+   * `undefined`/`'pending'` while the user has not decided yet. Promises
+   * resolving to one of these values are supported as well.
+   * Only provide functions for purposes you want to track; purposes without
+   * a getter are never granted, so default policy rules that need them keep
+   * their denied values
    */
-  consentStateGetters: ConsentStateGetters;
+  consentStateGetters: ConsentStateGetters<P>;
 
   /**
    * Function to listen for consent changes
@@ -112,195 +255,764 @@ export interface SentryConsentIntegrationOptions {
    * @default 30000 (30 seconds)
    */
   consentTimeout?: number;
+
+  /**
+   * What to do when no consent decision is available after `consentTimeout`
+   * The resulting consent state is applied like a regular decision
+   * @default 'deny-all'
+   */
+  consentTimeoutFallback?: ConsentTimeoutFallback<P>;
+
+  /**
+   * Limits for the queue holding events captured before consent is known
+   * Events dropped because of these limits are reported as client outcomes
+   * once consent is granted
+   * @default { maxEvents: 100, maxBytes: 1000000, dropPolicy: 'drop-oldest' }
+   */
+  queue?: EventQueueOptions;
+
+  /**
+   * Opt-in storage used to keep queued events across page navigations while
+   * consent is pending. Stored events are read back during setup and wiped as
+   * soon as consent is denied or the timeout fallback runs.
+   * @default undefined (queue is kept in memory only)
+   */
+  queueStorage?: QueueStorage;
+
+  /**
+   * Which consent purposes control which Sentry client options, and the value
+   * each option takes while its purposes are not granted. Rules replace the
+   * rule for the same key in DEFAULT_CONSENT_POLICY.
+   * These rules are validated when the integration is created and may only
+   * use purposes that have a consent state getter.
+   *
+   * @example
+   * ```typescript
+   * policy: {
+   *   attachStacktrace: { purposes: ['functional'], deniedValue: false },
+   * }
+   * ```
+   * @default DEFAULT_CONSENT_POLICY
+   */
+  policy?: ConsentPolicy<P | DefaultConsentPurpose>;
+
+  /**
+   * Purposes that must all be granted for events to be sent to Sentry
+   * Events are queued until every purpose listed here is decided
+   * Every purpose listed here needs a consent state getter
+   * @default ['functional']
+   */
+  requiredPurposes?: P[];
+
+  /**
+   * Which user fields, tags, contexts and extras need which consent purpose
+   * Classified data is held back while its purpose is denied and restored
+   * once it is granted. Rules given for a kind replace the default rules of
+   * that kind in DEFAULT_DATA_CLASSIFICATION.
+   *
+   * @example
+   * ```typescript
+   * dataClassification: {
+   *   tags: [
+   *     { match: 'ab_test', purpose: 'analytics' },
+   *     { match: /^utm_/, purpose: 'marketing' },
+   *   ],
+   *   user: [{ match: 'email', purpose: 'preferences' }],
+   * }
+   * ```
+   * @default DEFAULT_DATA_CLASSIFICATION
+   */
+  dataClassification?: DataClassification<P | DefaultConsentPurpose>;
+
+  /**
+   * Record every applied consent state with a hash of the resulting Sentry
+   * options and the number of events queued, released and blocked, e.g. to
+   * demonstrate consent under GDPR Art. 7(1)
+   * @default undefined (no ledger)
+   */
+  ledger?: ConsentLedgerOptions<P>;
+
+  /**
+   * Scopes whose user, tags, contexts and extras are managed for the client
+   * Needed for clients that are not the active one, e.g. a widget's own
+   * BrowserClient bound to its own Scope.
+   * @default the isolation and current scope when the client is the active client
+   */
+  getScopes?: (client: Client) => Scope[];
+
+  /**
+   * Sentry SDK major version whose client options are written, for clients
+   * without SDK metadata
+   * @default detected from the client's SDK metadata
+   */
+  sdkMajorVersion?: number;
+
+  /**
+   * Scrub personal data from events sent while the purpose (preferences by
+   * default) is not granted: values at sensitive field paths such as
+   * `user.email` or `request.headers.Authorization` are replaced, and emails,
+   * phone numbers, IBANs, card numbers and JWTs are replaced inside
+   * messages, exception values, extras, contexts and breadcrumbs.
+   * Set to false to send events unscrubbed.
+   * @default {} (enabled with the built-in field paths and detectors)
+   */
+  piiScrubbing?: PiiScrubbingOptions<P | DefaultConsentPurpose> | false;
+
+  /**
+   * Sanitize URLs in the request, breadcrumbs, spans and transaction name:
+   * campaign and click ID parameters (utm_*, gclid, fbclid, ...) are removed
+   * without marketing consent, and query values, fragments and route IDs are
+   * removed without preferences consent. Set to false to keep URLs as is.
+   * @default {} (enabled with the built-in tracking parameters)
+   */
+  urlSanitization?: UrlSanitizationOptions<P | DefaultConsentPurpose> | false;
+
+  /**
+   * Which integrations need which consent purpose, keyed by integration name
+   * Integrations are disabled while their purpose is denied and removed from
+   * the client's integration list. Entries replace the default entry of the
+   * same name in DEFAULT_INTEGRATION_TOGGLES. Set to false to leave
+   * integrations untouched; integrations wrapped with
+   * consentGatedIntegration() are then set up right away.
+   *
+   * @example
+   * ```typescript
+   * integrationToggles: {
+   *   HttpClient: 'functional',
+   *   MyAnalytics: { purpose: 'analytics', matchEvent: (e) => !!e.tags?.ab },
+   * }
+   * ```
+   * @default DEFAULT_INTEGRATION_TOGGLES
+   */
+  integrationToggles?:
+    Record<string, IntegrationToggleEntry<P | DefaultConsentPurpose>> | false;
 }
 
-class SentryConsentIntegrationClass implements Integration {
+/**
+ * Integration object returned by sentryConsentIntegration()
+ */
+export interface ConsentIntegration<
+  P extends string = DefaultConsentPurpose,
+> extends Integration {
+  getOriginalSentryConfig(): any;
+  getOriginalScopeData(): ScopeSnapshot;
+  checkAndResumeReplay(): boolean;
+  getConsentState(): ConsentState<P>;
+  getEffectiveConfig(): Record<string, unknown>;
+  isReady(): boolean;
+  isEnforcing(): boolean;
+  on<E extends ConsentIntegrationEventName>(
+    eventName: E,
+    listener: ConsentIntegrationEventListener<P, E>
+  ): () => void;
+  onConsentStateChange(listener: ConsentStateListener<P>): () => void;
+  onConsentTransition(
+    purpose: P | '*',
+    kind: ConsentTransitionKind,
+    handler: ConsentTransitionHandler<P>
+  ): () => void;
+  getConsentLedger(): Promise<ConsentLedgerEntry<P>[]>;
+  exportConsentLedger(): Promise<string | null>;
+  suspend(): void;
+  resume(): void;
+  cleanup(): void;
+}
+
+/**
+ * Tag added to events that were held back while waiting for consent and
+ * released afterwards, so they can be filtered on in Sentry dashboards
+ */
+export const CONSENT_QUEUED_TAG = 'consent.queued';
+
+class SentryConsentIntegrationClass<
+  P extends string = DefaultConsentPurpose,
+> implements Integration {
   public static id = 'SentryConsentIntegration';
   public name = SentryConsentIntegrationClass.id;
 
-  private options: SentryConsentIntegrationOptions & {
+  private options: SentryConsentIntegrationOptions<P> & {
     debug: boolean;
     consentTimeout: number;
+    consentTimeoutFallback: ConsentTimeoutFallback<P>;
+    requiredPurposes: P[];
   };
+  private logger: Logger;
+  private client: Client | undefined;
   private isConsentReady = false;
   private hasConsent = false;
-  private eventQueue: Array<{ event: Event; hint: EventHint }> = [];
+  private eventQueue: EventQueue;
+  private policy: ConsentPolicy<string>;
+  private isQueueRestored = false;
   private consentChangeCleanup: (() => void) | null = null;
-  private currentConsentState: ConsentState = {};
+  private currentConsentState: ConsentState<P> = {};
   private timeoutId: any = null;
+  private evaluationSequence = 0;
+  private monitoringStartedAt = 0;
+  private pendingConsentState: ConsentState<P> = {};
   private originalSentryConfig: any = {};
-  private originalScopeData: any = {};
+  // Exact client option values the policy overwrites; keys that were not
+  // set on the client are left out so they can be removed again
+  private originalClientOptions: Record<string, unknown> | null = null;
+  private isSuspended = false;
+  // Set by cleanup() until the integration is set up again
+  private isTornDown = false;
+  private sdkAdapter: SdkOptionAdapter = getSdkOptionAdapter();
+  private originalScopeData: ScopeSnapshot = {
+    user: null,
+    tags: {},
+    contexts: {},
+    extra: {},
+  };
+  private scopeShadow: ScopeDataShadow;
+  private dataClassification: DataClassification<string>;
+  private scrubPii: ((event: Event) => Event) | null = null;
+  private piiScrubbingPurpose = 'preferences';
+  private integrationToggler: IntegrationToggler | null = null;
+  private sanitizeUrls:
+    ((event: Event, consentState: ConsentState<string>) => Event) | null = null;
+  private effectiveConfig: Record<string, unknown> = {};
+  private ledger: ConsentLedger<P> | null = null;
   private replayStoppedDueToUnsafeSettings = false;
-
-  constructor(options: SentryConsentIntegrationOptions) {
+  private events = createConsentEventEmitter<P>((eventName, error) =>
+    this.logger.warn(`Listener for ${eventName} failed`, { error })
+  );
+  private transitions = new ConsentTransitionEngine<string>(
+    (transition, error) =>
+      this.logger.warn(
+        `Handler for ${transition.kind} of ${transition.purpose} failed`,
+        { error }
+      )
+  );
+
+  constructor(options: SentryConsentIntegrationOptions<P>) {
     this.options = {
       debug: false,
       consentTimeout: 30000,
+      consentTimeoutFallback: 'deny-all',
+      requiredPurposes: ['functional' as P],
       ...options,
     };
+    this.logger = createLogger({
+      level: this.options.debug || isDebugEnvironment() ? 'debug' : 'silent',
+      ...this.options.logger,
+    });
+    this.eventQueue = new EventQueue(this.options.queue);
+
+    const trackedPurposes = Object.keys(this.options.consentStateGetters);
+    this.validateRequiredPurposes(trackedPurposes);
+    // Only custom rules must use tracked purposes; default rules whose
+    // purposes have no getter keep their denied values
+    validateConsentPolicy(this.options.policy ?? {}, trackedPurposes);
+    this.policy = resolveConsentPolicy<string>(this.options.policy);
+    const neverGranted = Object.entries(this.policy)
+      .filter(([, rule]) =>
+        rule?.purposes.some((purpose) => !trackedPurposes.includes(purpose))
+      )
+      .map(([key]) => key);
+    if (neverGranted.length > 0) {
+      this.logger.debug('Policy rules with untracked purposes stay denied', {
+        keys: neverGranted,
+      });
+    }
+    const dataClassification = resolveDataClassification<string>(
+      this.options.dataClassification
+    );
+    const knownPurposes = [...DEFAULT_CONSENT_PURPOSES, ...trackedPurposes];
+    validateDataClassification(dataClassification, knownPurposes);
+    this.dataClassification = dataClassification;
+    this.scopeShadow = new ScopeDataShadow(dataClassification);
+    this.setupPiiScrubbing(knownPurposes);
+    this.setupUrlSanitization(knownPurposes);
+    this.setupIntegrationToggles(knownPurposes);
+    this.registerTransitionHandlers();
+    this.setupLedger();
+  }
+
+  private setupPiiScrubbing(knownPurposes: string[]): void {
+    const { piiScrubbing = {} } = this.options;
+    if (piiScrubbing === false) return;
+
+    const { purpose = 'preferences', ...scrubberOptions } = piiScrubbing;
+    validateFeaturePurposes('PII scrubbing', [purpose], knownPurposes);
+    this.piiScrubbingPurpose = purpose;
+    this.scrubPii = createPiiScrubber(scrubberOptions);
   }
 
-  public setupOnce(): void {
-    this.log('Setting up Sentry Consent Integration');
+  private setupUrlSanitization(knownPurposes: string[]): void {
+    const { urlSanitization = {} } = this.options;
+    if (urlSanitization === false) return;
+
+    const { purpose = 'preferences', trackingPurpose = 'marketing' } =
+      urlSanitization;
+    validateFeaturePurposes(
+      'URL sanitization',
+      [purpose, trackingPurpose],
+      knownPurposes
+    );
+    this.sanitizeUrls = createUrlSanitizer(urlSanitization);
+  }
+
+  private setupIntegrationToggles(knownPurposes: string[]): void {
+    const { integrationToggles = {} } = this.options;
+    if (integrationToggles === false) return;
+
+    const toggles = resolveIntegrationToggles<string>(integrationToggles);
+    validateFeaturePurposes(
+      'integration toggles',
+      Object.values(toggles).map(({ purpose }) => purpose),
+      knownPurposes
+    );
+    this.integrationToggler = new IntegrationToggler(
+      toggles,
+      (name, purpose, enabled) => {
+        this.logger.debug(
+          `Integration ${name} ${enabled ? 'enabled' : 'disabled'}`,
+          { purpose }
+        );
+        this.events.emit('integrationToggled', {
+          name,
+          purpose: purpose as P,
+          enabled,
+        });
+      }
+    );
+  }
+
+  /**
+   * Copy of the event with personal data and URLs sanitized for the current
+   * consent state
+   */
+  private sanitizeEvent(event: Event): Event {
+    const consentState = this.currentConsentState as ConsentState<string>;
+    // The scope shadow only clears the scopes; queued events were captured
+    // with their scope data already applied
+    let sanitized = removeDeniedEventData(
+      event,
+      this.dataClassification,
+      consentState
+    );
+
+    if (this.scrubPii && consentState[this.piiScrubbingPurpose] !== true) {
+      sanitized = this.scrubPii(sanitized);
+    }
+    if (this.sanitizeUrls) {
+      sanitized = this.sanitizeUrls(sanitized, consentState);
+    }
+    return sanitized;
+  }
+
+  private setupLedger(): void {
+    if (!this.options.ledger) return;
+
+    const ledger = new ConsentLedger<P>(
+      this.options.ledger.storage ?? memoryLedgerStorage<P>(),
+      (error) =>
+        this.logger.warn('Failed to write consent ledger entry', { error })
+    );
+    this.events.on('eventQueued', () => ledger.count('queued'));
+    this.events.on('eventReleased', () => ledger.count('released'));
+    // Events rejected by queue limits are part of the flushed dropped count
+    this.events.on('eventBlocked', ({ reason }) => {
+      if (reason !== 'queue_limit') ledger.count('blocked');
+    });
+    this.events.on('queueFlushed', ({ discarded, dropped }) =>
+      ledger.count('blocked', discarded + dropped)
+    );
+    this.ledger = ledger;
+  }
+
+  private registerTransitionHandlers(): void {
+    // Preferences consent controls session replay (most privacy-sensitive feature)
+    this.transitions.on('preferences', 'grant', () =>
+      this.handleReplayConsentGranted()
+    );
+    this.transitions.on('preferences', 'revoke', () =>
+      this.handleReplayConsentRevoked()
+    );
+
+    // Classified scope data (user fields, tags, contexts, extras) follows
+    // the consent of its own purpose
+    this.transitions.on('*', 'revoke', ({ purpose }) =>
+      this.updateSentryScope(purpose, false)
+    );
+    this.transitions.on('*', 'grant', ({ purpose }) =>
+      this.updateSentryScope(purpose, true)
+    );
+  }
+
+  private validateRequiredPurposes(trackedPurposes: string[]): void {
+    const { requiredPurposes } = this.options;
+    const untracked = requiredPurposes.filter(
+      (purpose) => !trackedPurposes.includes(purpose)
+    );
+
+    if (requiredPurposes.length === 0 || untracked.length > 0) {
+      throw new Error(
+        `[SentryConsentIntegration] requiredPurposes must list tracked purposes, missing getters for: ${untracked.join(', ') || '(none listed)'}`
+      );
+    }
+  }
+
+  private hasRequiredConsent(consentState: ConsentState<P>): boolean {
+    return this.options.requiredPurposes.every(
+      (purpose) => consentState[purpose] === true
+    );
+  }
+
+  public setup(client: Client): void {
+    // All state (options, scope data, queue) belongs to a single client;
+    // the factory creates an instance per client
+    if (this.client) {
+      if (this.client !== client) {
+        this.logger.warn('Already set up for another client');
+      }
+      return;
+    }
+
+    this.logger.debug('Setting up Sentry Consent Integration');
+    this.client = client;
+    this.isTornDown = false;
+
+    // Client options differ between SDK major versions
+    this.sdkAdapter = getSdkOptionAdapter(
+      this.options.sdkMajorVersion ?? detectSdkMajorVersion(client)
+    );
+    this.logger.debug(
+      `Using client options of Sentry SDK v${this.sdkAdapter.majorVersion}`
+    );
 
     // Capture initial configuration
     this.captureOriginalSentryConfig();
-    this.captureOriginalScopeData();
+    this.captureOriginalScopeData(client);
+
+    // Read events queued on previous pages before consent is evaluated
+    void this.restorePersistedQueue();
 
     // Start monitoring for consent
     this.initializeConsentMonitoring();
   }
 
+  public afterAllSetup(client: Client): void {
+    // Integrations are only listed on the client once all of them are set
+    // up, which can be after the initial consent decision was applied
+    if (client !== this.client) return;
+    if (this.options.integrationToggles === false) {
+      // Gated integrations are otherwise only set up by the toggler
+      enableConsentGates(client);
+      return;
+    }
+    if (this.isConsentReady && this.integrationToggler) {
+      this.integrationToggler.apply(
+        client,
+        this.currentConsentState as ConsentState<string>
+      );
+    }
+  }
+
   public processEvent(
     event: Event,
     hint: EventHint
   ): Event | null | PromiseLike<Event | null> {
+    // The host application is in control while suspended or after cleanup
+    if (this.isSuspended || this.isTornDown) return event;
+
+    const blockingIntegration = this.integrationToggler?.getBlockingIntegration(
+      event,
+      hint
+    );
+    if (blockingIntegration) {
+      this.logger.debug('Event blocked - integration disabled', {
+        integration: blockingIntegration,
+        eventType: event.type,
+        eventId: event.event_id,
+      });
+      this.events.emit('eventBlocked', {
+        event,
+        reason: 'integration_disabled',
+      });
+      return null;
+    }
+
     // If consent is ready and we have consent, allow the event
     if (this.isConsentReady && this.hasConsent) {
-      this.log('Event allowed - consent granted');
-      logEvent('Sentry event allowed', {
+      this.logger.debug('Event allowed - consent granted', {
         eventType: event.type,
         eventId: event.event_id,
         level: event.level,
       });
 
-      return event;
+      return this.sanitizeEvent(event);
     }
 
     // If consent is ready but we don't have consent, block the event
     if (this.isConsentReady && !this.hasConsent) {
-      this.log('Event blocked - consent not granted');
-      logEvent('Event blocked', {
-        reason: 'No functional consent',
+      this.logger.debug('Event blocked - consent not granted', {
+        reason: 'Required consent not granted',
         eventType: event.type,
         eventId: event.event_id,
         level: event.level,
       });
+      this.events.emit('eventBlocked', { event, reason: 'consent_denied' });
       return null;
     }
 
     // If consent is not ready yet, queue the event and block it for now
-    this.log('Event queued - waiting for consent');
-    logEvent('Sentry event queued', {
-      reason: 'Waiting for consent decision',
+    this.logger.debug('Event queued - waiting for consent', {
       eventType: event.type,
       eventId: event.event_id,
       queueSize: this.eventQueue.length + 1,
     });
-    this.eventQueue.push({ event, hint });
+    if (this.eventQueue.push(event, hint)) {
+      this.events.emit('eventQueued', {
+        event,
+        queueSize: this.eventQueue.length,
+      });
+    } else {
+      this.logger.debug('Event dropped - pre-consent queue limit reached');
+      this.events.emit('eventBlocked', { event, reason: 'queue_limit' });
+    }
+    this.persistQueue();
     return null; // Block the event for now, we'll resend it later if consent is granted
   }
 
   private initializeConsentMonitoring(): void {
-    this.log('Initializing consent monitoring');
+    this.logger.debug('Initializing consent monitoring');
+    this.monitoringStartedAt = Date.now();
 
-    try {
-      // Try to get initial consent state
-      const initialState = this.getConsentState();
-      this.log('Initial consent state retrieved', initialState);
-      this.handleConsentState(initialState);
-    } catch (error) {
-      this.log('Failed to get initial consent state, waiting...', error);
-
-      // Set timeout for consent determination
-      this.timeoutId = setTimeout(() => {
-        this.log(
-          `Warning: Consent state not determined after ${this.options.consentTimeout}ms`
-        );
-        logEvent('Consent timeout warning', {
-          message: `Consent state not determined after ${this.options.consentTimeout}ms`,
-          waitTime: this.options.consentTimeout,
-        });
+    // Armed before evaluating, so getters whose promises never settle still
+    // end in the timeout fallback
+    this.startConsentTimeout();
 
-        // Fallback: proceed without consent after timeout
-        this.isConsentReady = true;
-        this.hasConsent = false;
-        this.clearEventQueue();
-      }, this.options.consentTimeout);
-    }
+    // Try to get initial consent state
+    this.evaluateConsentState();
 
     // Listen for consent changes
     this.listenForConsentChanges();
   }
 
-  private getConsentState(): ConsentState {
-    const { consentStateGetters } = this.options;
-    const state: ConsentState = {};
+  private startConsentTimeout(): void {
+    if (this.timeoutId || this.options.consentTimeoutFallback === 'wait') {
+      return;
+    }
 
-    try {
-      if (consentStateGetters.functional) {
-        state.functional = consentStateGetters.functional();
+    // Set timeout for consent determination
+    this.timeoutId = setTimeout(
+      () => this.handleConsentTimeout(),
+      this.options.consentTimeout
+    );
+  }
+
+  private handleConsentTimeout(): void {
+    this.timeoutId = null;
+    const elapsed = Date.now() - this.monitoringStartedAt;
+
+    this.logger.warn(`Consent state not determined after ${elapsed}ms`, {
+      waitTime: elapsed,
+    });
+
+    const fallbackState = this.resolveTimeoutFallback(elapsed);
+    if (fallbackState === 'wait') {
+      this.logger.debug('Timeout fallback decided to keep waiting for consent');
+      this.startConsentTimeout();
+      return;
+    }
+
+    // Apply the fallback like a regular consent decision
+    this.logger.info('Applying consent timeout fallback', {
+      consentState: fallbackState,
+    });
+    this.handleConsentState(fallbackState, 'timeout');
+  }
+
+  private resolveTimeoutFallback(elapsed: number): ConsentState<P> | 'wait' {
+    const fallback = this.options.consentTimeoutFallback;
+    let decision: ConsentTimeoutStrategy | ConsentState<P> = 'deny-all';
+
+    if (typeof fallback === 'function') {
+      try {
+        decision = fallback({
+          elapsed,
+          consentState: { ...this.pendingConsentState },
+          queuedEvents: this.eventQueue.snapshot(),
+        });
+      } catch (error) {
+        this.logger.warn('Consent timeout fallback failed, denying consent', {
+          error,
+        });
       }
-      if (consentStateGetters.analytics) {
-        state.analytics = consentStateGetters.analytics();
+    } else {
+      decision = fallback;
+    }
+
+    if (decision === 'wait' || typeof decision === 'object') {
+      return decision;
+    }
+
+    // Built-in strategies decide every known purpose, so the policy and the
+    // scope handling see explicit denials
+    const purposes = new Set<string>([
+      ...DEFAULT_CONSENT_PURPOSES,
+      ...Object.keys(this.options.consentStateGetters),
+    ]);
+    const state: ConsentState<string> = {};
+    purposes.forEach((purpose) => {
+      state[purpose] =
+        decision === 'grant-functional-only' && purpose === 'functional';
+    });
+    return state as ConsentState<P>;
+  }
+
+  /**
+   * Read all getters and act on the result. Synchronous getters are applied
+   * immediately; if any getter returns a promise, the result is applied once
+   * all of them settle, unless a newer evaluation has started meanwhile.
+   */
+  private evaluateConsentState(): void {
+    const sequence = ++this.evaluationSequence;
+    const { consentStateGetters } = this.options;
+    const purposes = Object.keys(consentStateGetters) as P[];
+
+    const results = purposes.map((purpose) => {
+      try {
+        return consentStateGetters[purpose]?.();
+      } catch (error) {
+        this.logger.warn(`Error calling consent state getter for ${purpose}`, {
+          error,
+        });
+        return undefined;
       }
-      if (consentStateGetters.marketing) {
-        state.marketing = consentStateGetters.marketing();
+    });
+
+    const apply = (decisions: ConsentDecision[]): void => {
+      if (sequence !== this.evaluationSequence) {
+        this.logger.debug('Discarding outdated consent evaluation');
+        return;
       }
-      if (consentStateGetters.preferences) {
-        state.preferences = consentStateGetters.preferences();
+
+      const state: ConsentState<P> = {};
+      purposes.forEach((purpose, index) => {
+        const decision = decisions[index];
+        if (typeof decision === 'boolean') {
+          state[purpose] = decision;
+        }
+      });
+      this.applyConsentEvaluation(state);
+    };
+
+    if (!results.some(isThenable)) {
+      apply(results as ConsentDecision[]);
+      return;
+    }
+
+    void Promise.all(
+      results.map((result) =>
+        Promise.resolve(result).catch((error: unknown) => {
+          this.logger.warn('Consent state getter rejected', { error });
+          return undefined;
+        })
+      )
+    ).then(apply);
+  }
+
+  private applyConsentEvaluation(consentState: ConsentState<P>): void {
+    if (!this.isConsentReady) {
+      const undecided = this.options.requiredPurposes.filter(
+        (purpose) => consentState[purpose] === undefined
+      );
+
+      if (undecided.length > 0) {
+        this.pendingConsentState = consentState;
+        this.logger.debug(
+          `Consent not decided yet for ${undecided.join(', ')}, waiting...`,
+          { consentState }
+        );
+        this.startConsentTimeout();
+        return;
       }
-    } catch (error) {
-      this.log('Error calling consent state getters', error);
-      throw error;
+
+      this.logger.debug('Initial consent state retrieved', { consentState });
+      this.handleConsentState(consentState);
+      return;
     }
 
-    return state;
+    this.handleConsentChange(consentState);
   }
 
   private listenForConsentChanges(): void {
     try {
-      this.consentChangeCleanup = this.options.onConsentChange(() => {
-        const newConsentState = this.getConsentState();
-        const currentConsent = newConsentState.functional ?? false;
-
-        if (
-          currentConsent !== this.hasConsent ||
-          JSON.stringify(newConsentState) !==
-            JSON.stringify(this.currentConsentState)
-        ) {
-          this.log(
-            `Consent changed from ${this.hasConsent} to ${currentConsent}`
-          );
-          logEvent('Consent status changed', {
-            from: this.hasConsent,
-            to: currentConsent,
-            newState: newConsentState,
-            appliedSentryConfig: true,
-          });
-
-          this.hasConsent = currentConsent;
-          this.currentConsentState = newConsentState;
-
-          // Apply Sentry configuration changes based on new consent state
-          this.applySentryConfiguration(newConsentState);
-          this.updateIntegrationConfigs(newConsentState);
-
-          // Handle Session Replay state changes specifically
-          this.handleReplayConsentChange(
-            this.currentConsentState.preferences,
-            newConsentState.preferences
-          );
+      this.consentChangeCleanup = this.options.onConsentChange(() =>
+        this.evaluateConsentState()
+      );
 
-          if (currentConsent) {
-            this.log('Consent granted, processing any new queued events');
-            void this.processQueuedEvents(); // Fire and forget async call
-          } else {
-            this.log('Consent revoked, future events will be blocked');
-          }
-        }
+      this.logger.debug('Listening for consent changes');
+    } catch (error) {
+      this.logger.error('Failed to set up consent change listener', {
+        error,
       });
+    }
+  }
 
-      this.log('Listening for consent changes');
-    } catch (error) {
-      this.log('Failed to set up consent change listener', error);
+  private handleConsentChange(newConsentState: ConsentState<P>): void {
+    const currentConsent = this.hasRequiredConsent(newConsentState);
+
+    if (
+      currentConsent === this.hasConsent &&
+      JSON.stringify(newConsentState) ===
+        JSON.stringify(this.currentConsentState)
+    ) {
+      return;
+    }
+
+    this.logger.info(
+      `Consent changed from ${this.hasConsent} to ${currentConsent}`,
+      {
+        from: this.hasConsent,
+        to: currentConsent,
+        consentState: newConsentState,
+        appliedSentryConfig: true,
+      }
+    );
+
+    const previousConsentState = this.currentConsentState;
+    this.hasConsent = currentConsent;
+    this.currentConsentState = newConsentState;
+
+    // Apply Sentry configuration changes based on new consent state
+    this.applySentryConfiguration(newConsentState);
+    this.updateIntegrationConfigs(newConsentState);
+    this.applyConsentTransitions(previousConsentState, newConsentState);
+    this.ledger?.record(
+      'change',
+      newConsentState,
+      currentConsent,
+      this.effectiveConfig
+    );
+
+    this.events.emit('consentChanged', {
+      previous: { ...previousConsentState },
+      current: this.getConsentState(),
+      diff: diffConsentStates(previousConsentState, newConsentState),
+      hasConsent: currentConsent,
+    });
+
+    if (currentConsent) {
+      this.logger.debug('Consent granted, processing any new queued events');
+      void this.processQueuedEvents(); // Fire and forget async call
+    } else {
+      this.logger.debug('Consent revoked, future events will be blocked');
     }
   }
 
-  private handleConsentState(consentState: ConsentState): void {
+  private handleConsentState(
+    consentState: ConsentState<P>,
+    trigger: ConsentLedgerTrigger = 'initial'
+  ): void {
+    const previousConsentState = this.currentConsentState;
     this.currentConsentState = consentState;
-    const hasConsent = consentState.functional ?? false;
-    this.log(`Consent check result: ${hasConsent}`, this.currentConsentState);
+    const hasConsent = this.hasRequiredConsent(consentState);
+    this.logger.debug(`Consent check result: ${hasConsent}`, {
+      consentState,
+    });
 
     this.isConsentReady = true;
     this.hasConsent = hasConsent;
@@ -308,18 +1020,23 @@ class SentryConsentIntegrationClass implements Integration {
     // Apply Sentry configuration based on current consent state
     this.applySentryConfiguration(consentState);
     this.updateIntegrationConfigs(consentState);
+    this.applyConsentTransitions(previousConsentState, consentState);
+    this.ledger?.record(
+      trigger,
+      consentState,
+      hasConsent,
+      this.effectiveConfig
+    );
 
     if (hasConsent) {
-      this.log('Consent granted, processing queued events');
-      logEvent('Consent granted', {
+      this.logger.info('Consent granted, processing queued events', {
         queuedEvents: this.eventQueue.length,
         appliedSentryConfig: true,
         consentState: consentState,
       });
       void this.processQueuedEvents(); // Fire and forget async call
     } else {
-      this.log('Consent not granted, clearing event queue');
-      logEvent('Consent denied', {
+      this.logger.info('Consent not granted, clearing event queue', {
         discardedEvents: this.eventQueue.length,
         appliedSentryConfig: true,
         consentState: consentState,
@@ -329,6 +1046,24 @@ class SentryConsentIntegrationClass implements Integration {
 
     // Clear timeout since we have a consent status
     this.clearTimeout();
+
+    this.events.emit('ready', {
+      consentState: this.getConsentState(),
+      hasConsent,
+    });
+  }
+
+  private applyConsentTransitions(
+    previousConsentState: ConsentState<P>,
+    consentState: ConsentState<P>
+  ): void {
+    const transitions = this.transitions.apply(
+      previousConsentState,
+      consentState
+    );
+    if (transitions.length > 0) {
+      this.logger.debug('Applied consent transitions', { transitions });
+    }
   }
 
   private clearTimeout(): void {
@@ -338,77 +1073,240 @@ class SentryConsentIntegrationClass implements Integration {
     }
   }
 
-  private log(message: string, ...args: any[]): void {
-    if (this.options.debug) {
-      console.log(`[SentryConsentIntegration] ${message}`, ...args);
+  private async processQueuedEvents(): Promise<void> {
+    this.logger.debug(`Processing ${this.eventQueue.length} queued events`);
+
+    const queuedEvents = this.eventQueue.drain();
+    const droppedCounts = this.eventQueue.takeDroppedCounts();
+    this.wipePersistedQueue();
+
+    const client = this.client;
+    if (!client) {
+      this.logger.warn('Not set up for a client, cannot release queued events');
+      return;
     }
-  }
 
-  private async processQueuedEvents(): Promise<void> {
-    this.log(`Processing ${this.eventQueue.length} queued events`);
-
-    const queuedEvents = [...this.eventQueue];
-    this.eventQueue = [];
-
-    // Re-send queued events through Sentry
-    for (const { event, hint } of queuedEvents) {
-      if (this.hasConsent) {
-        this.log('Re-sending queued event:', event.event_id);
-
-        try {
-          // Re-capture the event through Sentry's APIs
-          if (event.exception?.values?.[0]) {
-            // For error events, re-throw the error
-            const error = new Error(
-              event.exception.values[0].value || 'Queued error'
-            );
-            error.stack = (event.exception.values[0].stacktrace?.frames ?? [])
-              .map((f: any) => `${f.filename || 'unknown'}:${f.lineno || 0}`)
-              .join('\n');
-
-            Sentry.captureException(error);
-          } else if (event.message) {
-            // For message events
-            Sentry.captureMessage(
-              event.message || 'Queued message',
-              event.level
-            );
-          } else {
-            // For other event types, try to use captureEvent if available
-            Sentry.captureEvent(event, hint);
-          }
-        } catch {
-          // Silently fail in production - Sentry not available
+    if (droppedCounts.total > 0) {
+      this.logger.warn(
+        `${droppedCounts.total} events were dropped while waiting for consent`,
+        { ...droppedCounts }
+      );
+      (['error', 'transaction'] as const).forEach((category) => {
+        for (let i = 0; i < droppedCounts.byCategory[category]; i++) {
+          client.recordDroppedEvent('queue_overflow', category);
         }
-      } else {
-        this.log('Discarding queued event due to no consent:', event.event_id);
+      });
+    }
+
+    // Send the original events straight to the client. They have already been
+    // through scope application and event processors, so they must not be
+    // captured again (that would assign new IDs and re-enter processEvent).
+    let released = 0;
+    for (const queued of queuedEvents) {
+      if (!this.hasConsent) {
+        this.logger.debug('Discarding queued event due to no consent', {
+          eventId: queued.event.event_id,
+        });
+        continue;
+      }
+
+      try {
+        if (await this.releaseQueuedEvent(client, queued)) released++;
+      } catch (error) {
+        this.logger.warn('Failed to release queued event', { error });
       }
     }
+
+    if (queuedEvents.length > 0 || droppedCounts.total > 0) {
+      this.events.emit('queueFlushed', {
+        released,
+        discarded: queuedEvents.length - released,
+        dropped: droppedCounts.total,
+      });
+    }
   }
 
-  private clearEventQueue(): void {
-    this.log(`Clearing ${this.eventQueue.length} queued events`);
-    this.eventQueue = [];
-  }
-
-  private captureOriginalScopeData(): void {
-    // Capture the current scope data to preserve it for later restoration
-    // Note: Sentry's new API doesn't expose direct access to scope internals
-    // We'll store what we can access through public methods
-    this.originalScopeData = {
-      user: null, // Will be captured when setUser is called
-      tags: {}, // Will be captured when setTag is called
-      contexts: {}, // Will be captured when setContext is called
+  private async releaseQueuedEvent(
+    client: Client,
+    { event, hint, queuedAt }: QueuedEvent
+  ): Promise<boolean> {
+    if (this.integrationToggler?.getBlockingIntegration(event, hint)) {
+      this.logger.debug('Queued event dropped - integration disabled', {
+        eventId: event.event_id,
+      });
+      return false;
+    }
+
+    const releasedAt = Date.now();
+    const flaggedEvent: Event = {
+      ...event,
+      tags: { ...event.tags, [CONSENT_QUEUED_TAG]: 'true' },
+      contexts: {
+        ...event.contexts,
+        consent: {
+          queued: true,
+          queued_at: new Date(queuedAt).toISOString(),
+          wait_ms: releasedAt - queuedAt,
+        },
+      },
     };
-    this.log(
-      'Initialized original scope data tracking',
-      this.originalScopeData
+
+    const processedEvent = await this.applyBeforeSend(
+      client,
+      this.sanitizeEvent(flaggedEvent),
+      hint
     );
+    if (!processedEvent) {
+      this.logger.debug('Queued event dropped by beforeSend', {
+        eventId: event.event_id,
+      });
+      client.recordDroppedEvent(
+        'before_send',
+        event.type === 'transaction' ? 'transaction' : 'error'
+      );
+      return false;
+    }
+
+    this.logger.debug('Re-sending queued event', {
+      eventType: processedEvent.type,
+      eventId: processedEvent.event_id,
+      waitTime: releasedAt - queuedAt,
+    });
+    client.sendEvent(processedEvent, hint);
+    this.events.emit('eventReleased', {
+      event: processedEvent,
+      waitMs: releasedAt - queuedAt,
+    });
+    return true;
+  }
+
+  private async applyBeforeSend(
+    client: Client,
+    event: Event,
+    hint: EventHint
+  ): Promise<Event | null> {
+    // Queued events were intercepted before the client ran its beforeSend
+    // callbacks, so run them here the same way the client would have
+    const { beforeSend, beforeSendTransaction } = client.getOptions();
+
+    if (event.type === 'transaction') {
+      return beforeSendTransaction
+        ? beforeSendTransaction(event as TransactionEvent, hint)
+        : event;
+    }
+
+    if (!event.type) {
+      return beforeSend ? beforeSend(event as ErrorEvent, hint) : event;
+    }
+
+    return event;
+  }
+
+  private clearEventQueue(): void {
+    this.logger.debug(`Clearing ${this.eventQueue.length} queued events`);
+    const dropped = this.eventQueue.takeDroppedCounts().total;
+    const discarded = this.eventQueue.clear();
+    this.wipePersistedQueue();
+
+    if (discarded > 0 || dropped > 0) {
+      this.events.emit('queueFlushed', { released: 0, discarded, dropped });
+    }
+  }
+
+  private async restorePersistedQueue(): Promise<void> {
+    const { queueStorage } = this.options;
+    if (!queueStorage) {
+      this.isQueueRestored = true;
+      return;
+    }
+
+    try {
+      const entries = await queueStorage.load();
+      this.isQueueRestored = true;
+
+      // Consent may have been denied while storage was being read
+      if (this.isConsentReady && !this.hasConsent) {
+        this.wipePersistedQueue();
+        return;
+      }
+
+      this.eventQueue.restore(entries);
+      this.logger.debug(`Restored ${entries.length} persisted queued events`);
+
+      if (this.isConsentReady) {
+        void this.processQueuedEvents(); // Fire and forget async call
+      } else {
+        this.persistQueue();
+      }
+    } catch (error) {
+      this.isQueueRestored = true;
+      this.logger.warn('Failed to restore persisted queued events', { error });
+    }
+  }
+
+  private persistQueue(): void {
+    const { queueStorage } = this.options;
+    // Writing before the stored queue was read back would overwrite it
+    if (!queueStorage || !this.isQueueRestored || this.isConsentReady) return;
+
+    const entries = this.eventQueue
+      .snapshot()
+      .map(({ event, queuedAt }) => ({ event, queuedAt }));
+    queueStorage.save(entries).catch((error) => {
+      this.logger.warn('Failed to persist queued events', { error });
+    });
+  }
+
+  private wipePersistedQueue(): void {
+    this.options.queueStorage?.clear().catch((error) => {
+      this.logger.warn('Failed to wipe persisted queued events', { error });
+    });
+  }
+
+  private getClientScopes(client: Client): Scope[] {
+    if (this.options.getScopes) return this.options.getScopes(client);
+
+    // Sentry.setUser()/setTag() write to the isolation scope while
+    // initialScope and withScope() data live on the current scope. Both only
+    // belong to the client while it is the active one.
+    const currentScope = Sentry.getCurrentScope();
+    if (currentScope.getClient() !== client) {
+      this.logger.debug(
+        'Client is not the active client - no scopes to manage, see getScopes'
+      );
+      return [];
+    }
+    return [Sentry.getIsolationScope(), currentScope];
+  }
+
+  private captureOriginalScopeData(client: Client): void {
+    const scopes = this.getClientScopes(client);
+
+    // Later scopes take precedence, like the current scope over the
+    // isolation scope
+    this.originalScopeData = scopes
+      .map(readScopeSnapshot)
+      .reduce<ScopeSnapshot>(
+        (merged, data) => ({
+          user: data.user ?? merged.user,
+          tags: { ...merged.tags, ...data.tags },
+          contexts: { ...merged.contexts, ...data.contexts },
+          extra: { ...merged.extra, ...data.extra },
+        }),
+        { user: null, tags: {}, contexts: {}, extra: {} }
+      );
+
+    // Track later setUser/setTag/setContext/setExtra calls so data set while
+    // its purpose is denied can be held back and restored
+    this.scopeShadow.track(scopes);
+    this.logger.debug('Captured original scope data', {
+      originalScopeData: this.originalScopeData,
+    });
   }
 
   private captureOriginalSentryConfig(): void {
     // Store original configuration from Sentry client
-    const client = Sentry.getClient();
+    const client = this.client;
     if (client) {
       const options = client.getOptions();
 
@@ -416,201 +1314,136 @@ class SentryConsentIntegrationClass implements Integration {
       this.originalSentryConfig = buildTrackedConfigObject(options as any);
 
       // Also capture callback functions and other non-configuration options
+      this.originalSentryConfig.enabled = options.enabled;
       this.originalSentryConfig.beforeBreadcrumb = options.beforeBreadcrumb;
       this.originalSentryConfig.beforeSend = options.beforeSend;
       this.originalSentryConfig.beforeSendTransaction =
         options.beforeSendTransaction;
+
+      const clientOptions = options as unknown as Record<string, unknown>;
+      const originalOptions: Record<string, unknown> = {};
+      getAdaptedOptionKeys(this.sdkAdapter, this.policy).forEach((key) => {
+        if (Object.prototype.hasOwnProperty.call(clientOptions, key)) {
+          originalOptions[key] = clientOptions[key];
+        }
+      });
+      this.originalClientOptions = originalOptions;
     } else {
       // Fallback to default values if no client found
       this.originalSentryConfig = { ...SENTRY_DEFAULT_CONFIG };
     }
-    this.log(
-      'Captured original Sentry configuration',
-      this.originalSentryConfig
-    );
+    this.logger.debug('Captured original Sentry configuration', {
+      originalSentryConfig: this.originalSentryConfig,
+    });
   }
 
-  private applySentryConfiguration(consentState: ConsentState): void {
-    this.log('Applying Sentry configuration based on consent', consentState);
+  private restoreOriginalClientOptions(): void {
+    const client = this.client;
+    const originalOptions = this.originalClientOptions;
+    if (!client || !originalOptions) return;
+
+    const options = client.getOptions() as unknown as Record<string, unknown>;
+    getAdaptedOptionKeys(this.sdkAdapter, this.policy).forEach((key) => {
+      if (Object.prototype.hasOwnProperty.call(originalOptions, key)) {
+        options[key] = originalOptions[key];
+      } else {
+        delete options[key];
+      }
+    });
+    this.logger.debug('Restored original Sentry client options');
+  }
 
-    const client = Sentry.getClient();
+  private applySentryConfiguration(consentState: ConsentState<string>): void {
+    if (this.isSuspended) {
+      this.logger.debug('Suspended - Sentry configuration not applied');
+      return;
+    }
+
+    this.logger.debug('Applying Sentry configuration based on consent', {
+      consentState,
+    });
+
+    const client = this.client;
     if (!client) {
-      this.log('No Sentry client found, cannot apply configuration');
+      this.logger.warn('Not set up for a client, cannot apply configuration');
       return;
     }
 
-    const options = client.getOptions();
+    const options = client.getOptions() as unknown as Record<string, unknown>;
 
     // Apply configuration based on consent state
     const newConfig = this.buildConsentBasedConfig(consentState);
 
-    // Update client options
-    Object.assign(options, newConfig);
-
-    // Update scope if marketing consent changed
-    if (consentState.marketing !== undefined) {
-      this.updateSentryScope(consentState.marketing);
-    }
+    // Update the client options the running SDK version reads
+    const clientOptions = adaptPolicyConfig(
+      this.sdkAdapter,
+      this.policy,
+      consentState,
+      newConfig,
+      this.originalClientOptions ?? {}
+    );
+    getAdaptedOptionKeys(this.sdkAdapter, this.policy).forEach((key) => {
+      if (key in clientOptions) {
+        options[key] = clientOptions[key];
+      } else {
+        delete options[key];
+      }
+    });
+    this.effectiveConfig = newConfig;
+    this.events.emit('configApplied', {
+      consentState: consentState as ConsentState<P>,
+      config: { ...newConfig },
+    });
 
-    this.log('Applied new Sentry configuration', newConfig);
+    this.logger.debug('Applied new Sentry configuration', {
+      config: newConfig,
+    });
   }
 
-  private buildConsentBasedConfig(consentState: ConsentState): any {
-    const config: any = {};
-
-    // Functional consent controls basic SDK operation
-    if (!consentState.functional) {
-      config.enabled = false;
-      config.sampleRate = 0.0;
-      config.beforeSend = () => null; // Block all events
-      config.autoSessionTracking = false; // Disable basic session health tracking
-    } else {
-      config.enabled = true;
-      config.sampleRate = this.originalSentryConfig.sampleRate ?? 1.0;
-      config.beforeSend = this.originalSentryConfig.beforeSend;
-      config.autoSessionTracking =
-        this.originalSentryConfig.autoSessionTracking ?? true;
-    }
-
-    // Analytics consent controls performance monitoring and context
-    if (!consentState.analytics) {
-      config.maxBreadcrumbs = 0;
-      config.attachStacktrace = false;
-      config.tracesSampleRate = 0.0;
-      config.profilesSampleRate = 0.0;
-      config.beforeBreadcrumb = () => null; // Drop all breadcrumbs
-      config.beforeSendTransaction = () => null; // Block all transactions
-    } else {
-      config.maxBreadcrumbs = this.originalSentryConfig.maxBreadcrumbs ?? 100;
-      config.attachStacktrace =
-        this.originalSentryConfig.attachStacktrace ?? false;
-      config.tracesSampleRate =
-        this.originalSentryConfig.tracesSampleRate ?? 0.0;
-      config.profilesSampleRate =
-        this.originalSentryConfig.profilesSampleRate ?? 0.0;
-      config.beforeBreadcrumb = this.originalSentryConfig.beforeBreadcrumb;
-      config.beforeSendTransaction =
-        this.originalSentryConfig.beforeSendTransaction;
-    }
-
-    // Preferences consent controls PII and session replay (most privacy-sensitive features)
-    if (!consentState.preferences) {
-      config.sendDefaultPii = false;
-      config.replaysSessionSampleRate = 0.0;
-      config.replaysOnErrorSampleRate = 0.0;
-      // Reset replay stop flag when consent is revoked
-      this.replayStoppedDueToUnsafeSettings = false;
-    } else {
-      config.sendDefaultPii = this.originalSentryConfig.sendDefaultPii ?? false;
-      config.replaysSessionSampleRate =
-        this.originalSentryConfig.replaysSessionSampleRate ?? 0.0;
-      config.replaysOnErrorSampleRate =
-        this.originalSentryConfig.replaysOnErrorSampleRate ?? 0.0;
-
-      // Note: Session Replay sample rates are now enabled, but the privacy-safe
-      // integration settings (maskAllText, maskAllInputs, blockAllMedia) must be
-      // configured by developers in their replayIntegration() at initialization time.
-      // This integration cannot dynamically modify integration-specific settings,
-      // only the main Sentry configuration options like sample rates.
-      this.log(
-        'Session Replay sample rates enabled - ensure replayIntegration() uses privacy-safe settings'
-      );
-
-      // Check for potentially unsafe replay integration settings and handle resume
-      this.validateReplayPrivacySettings();
-    }
-
-    return config;
+  private buildConsentBasedConfig(consentState: ConsentState<string>): any {
+    return buildPolicyConfig(
+      this.policy,
+      consentState,
+      this.originalSentryConfig
+    );
   }
 
-  private updateSentryScope(hasMarketingConsent: boolean): void {
-    const scope = Sentry.getCurrentScope();
-    if (!scope) return;
-
-    if (!hasMarketingConsent) {
-      // Clear marketing-related scope data (user identification for A/B testing, campaign tracking)
-      scope.setUser(null);
-
-      // Clear marketing-specific tags (preserve non-marketing tags if any)
-      if (this.originalScopeData.tags) {
-        Object.keys(this.originalScopeData.tags).forEach((tagKey) => {
-          // Clear tags that are typically used for marketing/behavioral analysis
-          if (this.isMarketingTag(tagKey)) {
-            scope.setTag(tagKey, undefined);
-          }
-        });
-      }
-
-      // Clear marketing context
-      scope.setContext('marketing', null);
-      scope.setContext('campaign', null);
-      scope.setContext('cohort', null);
-
-      this.log(
-        'Cleared marketing-related scope data (user identification, campaign tags)'
-      );
-    } else if (this.originalScopeData) {
-      // Restore original scope data for marketing analysis
-      const { user, tags, contexts } = this.originalScopeData;
-
-      if (user) {
-        scope.setUser(user);
-        this.log('Restored user identification for marketing analysis', {
-          userId: user.id,
-        });
-      }
-
-      if (tags) {
-        Object.entries(tags).forEach(([key, value]) => {
-          scope.setTag(key, value as any);
-        });
-        this.log(
-          'Restored marketing tags for A/B testing and campaign tracking'
-        );
-      }
-
-      if (contexts) {
-        Object.entries(contexts).forEach(([key, value]) => {
-          scope.setContext(key, value as any);
-        });
-      }
+  private handleReplayConsentGranted(): void {
+    // Note: Session Replay sample rates are now enabled, but the privacy-safe
+    // integration settings (maskAllText, maskAllInputs, blockAllMedia) must be
+    // configured by developers in their replayIntegration() at initialization time.
+    // This integration cannot dynamically modify integration-specific settings,
+    // only the main Sentry configuration options like sample rates.
+    this.logger.debug(
+      'Session Replay sample rates enabled - ensure replayIntegration() uses privacy-safe settings'
+    );
 
-      this.log('Restored marketing-related scope data for behavioral analysis');
-    }
+    // Check for potentially unsafe replay integration settings and handle resume
+    this.validateReplayPrivacySettings();
   }
 
-  private isMarketingTag(tagKey: string): boolean {
-    // Common marketing/behavioral analysis tag patterns
-    const marketingTagPatterns = [
-      'campaign',
-      'cohort',
-      'segment',
-      'experiment',
-      'variant',
-      'source',
-      'medium',
-      'channel',
-      'funnel',
-      'journey',
-      'user_type',
-      'subscription',
-      'plan',
-      'tier',
-    ];
+  private updateSentryScope(purpose: string, isGranted: boolean): void {
+    if (!isGranted) {
+      // Move scope data classified under the purpose (e.g. user
+      // identification and campaign tags for marketing) into the shadow copy
+      this.scopeShadow.revoke(purpose);
+      this.logger.debug(`Held back scope data classified as ${purpose}`);
+      return;
+    }
 
-    const lowerKey = tagKey.toLowerCase();
-    return marketingTagPatterns.some((pattern) => lowerKey.includes(pattern));
+    this.scopeShadow.grant(purpose);
+    this.logger.debug(`Restored scope data classified as ${purpose}`);
   }
 
   private validateReplayPrivacySettings(): void {
     // Check if Replay integration is configured and warn about potentially unsafe settings
-    const client = Sentry.getClient();
+    const client = this.client;
     if (!client) return;
 
     try {
-      const replay = Sentry.getReplay();
+      const replay = client.getIntegrationByName('Replay');
       if (!replay) {
-        this.log('No replay instance found');
+        this.logger.debug('No replay instance found');
         return;
       }
 
@@ -622,13 +1455,13 @@ class SentryConsentIntegrationClass implements Integration {
       const replayOptions = recordingOptions || initialOptions;
 
       if (!replayOptions) {
-        this.log(
+        this.logger.debug(
           'No replay options found in _recordingOptions or _initialOptions'
         );
         return;
       }
 
-      this.log('Checking replay privacy settings', {
+      this.logger.debug('Checking replay privacy settings', {
         hasRecordingOptions: !!recordingOptions,
         hasInitialOptions: !!initialOptions,
         usingOptions: recordingOptions ? 'recordingOptions' : 'initialOptions',
@@ -660,7 +1493,7 @@ class SentryConsentIntegrationClass implements Integration {
       }
 
       if (warnings.length > 0) {
-        this.log('Session Replay privacy warnings', {
+        this.logger.warn('Session Replay privacy warnings', {
           warnings,
           replayOptions,
         });
@@ -669,16 +1502,22 @@ class SentryConsentIntegrationClass implements Integration {
         if (typeof replayAny.stopRecording === 'function') {
           replayAny.stopRecording();
           this.replayStoppedDueToUnsafeSettings = true;
-          this.log('Session Replay stopped due to unsafe privacy settings');
+          this.logger.debug(
+            'Session Replay stopped due to unsafe privacy settings'
+          );
+          this.events.emit('replayStopped', { warnings });
         } else {
-          this.log(
+          this.logger.debug(
             'Cannot stop replay recording - stopRecording method not available'
           );
         }
       } else {
-        this.log('Session Replay appears to be using privacy-safe settings', {
-          replayOptions,
-        });
+        this.logger.debug(
+          'Session Replay appears to be using privacy-safe settings',
+          {
+            replayOptions,
+          }
+        );
 
         // If we previously stopped due to unsafe settings, but now settings are safe, resume
         if (this.replayStoppedDueToUnsafeSettings) {
@@ -694,7 +1533,7 @@ class SentryConsentIntegrationClass implements Integration {
         hasClient: !!client,
         clientHasOptions: !!client?.getOptions,
       };
-      this.log('Could not validate replay privacy settings', {
+      this.logger.warn('Could not validate replay privacy settings', {
         error: errorInfo,
       });
     }
@@ -706,90 +1545,160 @@ class SentryConsentIntegrationClass implements Integration {
       if (typeof replayInstance.startRecording === 'function') {
         replayInstance.startRecording();
         this.replayStoppedDueToUnsafeSettings = false;
-        this.log('Session Replay resumed - privacy settings are now safe');
+        this.logger.debug(
+          'Session Replay resumed - privacy settings are now safe'
+        );
+        this.events.emit('replayResumed', {});
       } else {
         // Fallback: log that manual intervention may be needed
-        this.log(
+        this.logger.debug(
           'Cannot automatically resume Session Replay - startRecording method not available'
         );
       }
     } catch (error) {
-      this.log('Failed to resume Session Replay recording', { error });
+      this.logger.warn('Failed to resume Session Replay recording', { error });
     }
   }
 
-  private handleReplayConsentChange(
-    previousPreferencesConsent: boolean | undefined,
-    newPreferencesConsent: boolean | undefined
-  ): void {
-    // Only act if preferences consent specifically changed
-    if (previousPreferencesConsent === newPreferencesConsent) {
-      return;
-    }
+  private handleReplayConsentRevoked(): void {
+    // Replay is disabled through the sample rates, so a stop caused by unsafe
+    // settings no longer needs to be tracked
+    this.replayStoppedDueToUnsafeSettings = false;
+    this.logger.debug('Preferences consent revoked - reset replay stop flag');
+  }
 
-    this.log('Preferences consent changed', {
-      from: previousPreferencesConsent,
-      to: newPreferencesConsent,
-      replayWasStopped: this.replayStoppedDueToUnsafeSettings,
-    });
+  private updateIntegrationConfigs(consentState: ConsentState<string>): void {
+    // Integrations needing a purpose that is denied are disabled and taken
+    // off the client's integration list; see DEFAULT_INTEGRATION_TOGGLES.
+    // Options such as sample rates are handled by the consent policy.
+    const client = this.client;
+    if (!this.integrationToggler || !client || this.isSuspended) return;
 
-    // If preferences consent was just granted and we previously stopped replay due to unsafe settings
-    if (newPreferencesConsent && this.replayStoppedDueToUnsafeSettings) {
-      this.log(
-        'Preferences consent granted - checking if Session Replay can be resumed'
-      );
+    this.integrationToggler.apply(client, consentState);
+  }
 
-      // Re-validate privacy settings to see if we can resume
-      this.validateReplayPrivacySettings();
-    }
-
-    // If preferences consent was revoked, reset the stopped flag
-    if (!newPreferencesConsent) {
-      this.replayStoppedDueToUnsafeSettings = false;
-      this.log('Preferences consent revoked - reset replay stop flag');
-    }
-  }
-
-  private updateIntegrationConfigs(consentState: ConsentState): void {
-    // Note: Integration configs are typically set at initialization time in Sentry.
-    // Dynamic updates to integration configurations would require more complex
-    // integration management that's beyond the scope of this consent integration.
-    //
-    // However, the main Sentry configuration changes (sample rates, PII settings, etc.)
-    // applied in buildConsentBasedConfig() effectively control integration behavior:
-    //
-    // Analytics consent controls:
-    // - tracesSampleRate: 0 → disables browserTracingIntegration traces
-    // - maxBreadcrumbs: 0 → disables breadcrumbsIntegration collection
-    // - beforeBreadcrumb: null → drops all breadcrumbs from any integration
-    // - beforeSendTransaction: null → blocks all performance transactions
-    //
-    // Preferences consent controls:
-    // - replaysSessionSampleRate: 0 → disables replayIntegration session recording
-    // - sendDefaultPii: false → prevents PII collection across all integrations
-    //
-    // Marketing consent controls:
-    // - Scope management in updateSentryScope() → removes user identification
-    //
-    // For more granular integration control, developers should configure integrations
-    // with consent-aware settings in their initial Sentry.init() call.
-
-    this.log('Integration behavior controlled via main Sentry configuration', {
-      consentState,
-      analytics: consentState.analytics
-        ? 'enabled'
-        : 'disabled (traces, breadcrumbs blocked)',
-      preferences: consentState.preferences
-        ? 'enabled'
-        : 'disabled (replay, PII blocked)',
-      marketing: consentState.marketing
-        ? 'enabled'
-        : 'disabled (user identification cleared)',
-    });
+  /**
+   * Get the consent state the integration is currently acting on
+   * Purposes that have not been determined yet are reported as undefined
+   *
+   * @returns A copy of the current consent state
+   */
+  public getConsentState(): ConsentState<P> {
+    return { ...this.currentConsentState };
   }
 
+  /**
+   * Sentry options currently set by the integration based on consent
+   * Empty until the first consent state is applied
+   *
+   * @returns A copy of the consent-controlled options and their values
+   */
+  public getEffectiveConfig(): Record<string, unknown> {
+    return { ...this.effectiveConfig };
+  }
+
+  /**
+   * Whether the initial consent decision has been made (including the
+   * timeout fallback), i.e. events are no longer being queued
+   */
+  public isReady(): boolean {
+    return this.isConsentReady;
+  }
+
+  /**
+   * Whether consent is being enforced, i.e. the integration is neither
+   * suspended nor torn down with cleanup()
+   */
+  public isEnforcing(): boolean {
+    return !this.isSuspended && !this.isTornDown;
+  }
+
+  /**
+   * Subscribe to consent state decisions and changes
+   * The listener is called with the new state every time the integration
+   * applies a consent state
+   *
+   * @returns A function that removes the listener
+   */
+  public onConsentStateChange(listener: ConsentStateListener<P>): () => void {
+    const unsubscribeReady = this.events.on('ready', ({ consentState }) =>
+      listener(consentState)
+    );
+    const unsubscribeChanged = this.events.on('consentChanged', ({ current }) =>
+      listener(current)
+    );
+    return () => {
+      unsubscribeReady();
+      unsubscribeChanged();
+    };
+  }
+
+  /**
+   * Register a handler that runs when consent for a purpose is granted or
+   * revoked ('*' matches every purpose). Revocations are dispatched before
+   * grants, and the initial decision and the timeout fallback count as
+   * transitions from an undecided state.
+   *
+   * @returns A function that removes the handler
+   */
+  public onConsentTransition(
+    purpose: P | '*',
+    kind: ConsentTransitionKind,
+    handler: ConsentTransitionHandler<P>
+  ): () => void {
+    return this.transitions.on(
+      purpose,
+      kind,
+      handler as ConsentTransitionHandler<string>
+    );
+  }
+
+  /**
+   * Entries of the consent ledger, oldest first
+   * Empty when the `ledger` option is not set
+   */
+  public async getConsentLedger(): Promise<ConsentLedgerEntry<P>[]> {
+    return this.ledger ? this.ledger.entries() : [];
+  }
+
+  /**
+   * Export the consent ledger as a JSON document with the current event
+   * counts, e.g. for a data protection officer
+   *
+   * @returns The JSON document, or null when the `ledger` option is not set
+   */
+  public async exportConsentLedger(): Promise<string | null> {
+    return this.ledger ? this.ledger.export() : null;
+  }
+
+  /**
+   * Subscribe to a lifecycle event of the integration
+   *
+   * @example
+   * ```typescript
+   * integration.on('consentChanged', ({ diff }) => {
+   *   if (diff.analytics?.to === false) analytics.reset();
+   * });
+   * ```
+   *
+   * @returns A function that removes the listener
+   */
+  public on<E extends ConsentIntegrationEventName>(
+    eventName: E,
+    listener: ConsentIntegrationEventListener<P, E>
+  ): () => void {
+    return this.events.on(eventName, listener);
+  }
+
+  /**
+   * Tear the integration down: the original client options and integrations
+   * are restored and events pass through unchanged. The integration can be
+   * set up again afterwards, e.g. when a micro-frontend is remounted.
+   */
   public cleanup(): void {
     this.clearTimeout();
+    // Results of evaluations still in flight are discarded
+    this.evaluationSequence++;
 
     if (this.consentChangeCleanup) {
       this.consentChangeCleanup();
@@ -797,11 +1706,66 @@ class SentryConsentIntegrationClass implements Integration {
     }
 
     this.clearEventQueue();
+    // Kept for the next setup, so the scopes' listeners are reused
+    this.scopeShadow.dispose();
+
+    const client = this.client;
+    if (client) this.integrationToggler?.restoreAll(client);
+    this.restoreOriginalClientOptions();
+    this.isSuspended = false;
+    this.isTornDown = true;
+
+    // Consent is evaluated again on the next setup
+    this.client = undefined;
+    this.originalClientOptions = null;
+    this.isConsentReady = false;
+    this.hasConsent = false;
+    this.isQueueRestored = false;
+    this.currentConsentState = {};
+    this.pendingConsentState = {};
+
+    this.logger.debug('Consent enforcement torn down');
+    this.events.emit('tornDown', {});
 
     // Reset replay state tracking
     this.replayStoppedDueToUnsafeSettings = false;
   }
 
+  /**
+   * Temporarily hand control back to the host application: the original
+   * client options and integrations are restored and events pass through
+   * unchanged until resume() is called. Consent changes are still tracked.
+   */
+  public suspend(): void {
+    if (this.isSuspended) return;
+
+    this.isSuspended = true;
+    this.restoreOriginalClientOptions();
+    const client = this.client;
+    if (client) this.integrationToggler?.restoreAll(client);
+
+    this.logger.debug('Consent enforcement suspended');
+    this.events.emit('suspended', {});
+  }
+
+  /**
+   * Enforce consent again after suspend(), applying the current consent
+   * state
+   */
+  public resume(): void {
+    if (!this.isSuspended) return;
+
+    this.isSuspended = false;
+    if (this.isConsentReady) {
+      const consentState = this.currentConsentState as ConsentState<string>;
+      this.applySentryConfiguration(consentState);
+      this.updateIntegrationConfigs(consentState);
+    }
+
+    this.logger.debug('Consent enforcement resumed');
+    this.events.emit('resumed', {});
+  }
+
   /**
    * Get the original Sentry configuration that was captured during initialization
    * This provides access to the user's original configuration before any consent-based modifications
@@ -818,8 +1782,13 @@ class SentryConsentIntegrationClass implements Integration {
    *
    * @returns The original scope data object
    */
-  public getOriginalScopeData(): any {
-    return { ...this.originalScopeData };
+  public getOriginalScopeData(): ScopeSnapshot {
+    return {
+      user: this.originalScopeData.user && { ...this.originalScopeData.user },
+      tags: { ...this.originalScopeData.tags },
+      contexts: { ...this.originalScopeData.contexts },
+      extra: { ...this.originalScopeData.extra },
+    };
   }
 
   /**
@@ -830,20 +1799,20 @@ class SentryConsentIntegrationClass implements Integration {
    */
   public checkAndResumeReplay(): boolean {
     if (!this.replayStoppedDueToUnsafeSettings) {
-      this.log(
+      this.logger.debug(
         'Session Replay was not stopped due to unsafe settings - no action needed'
       );
       return false;
     }
 
-    if (!this.currentConsentState.preferences) {
-      this.log(
+    if (!(this.currentConsentState as ConsentState<string>).preferences) {
+      this.logger.debug(
         'Cannot resume Session Replay - preferences consent not granted'
       );
       return false;
     }
 
-    this.log(
+    this.logger.debug(
       'Manually checking Session Replay privacy settings for potential resume'
     );
     this.validateReplayPrivacySettings();
@@ -853,6 +1822,87 @@ class SentryConsentIntegrationClass implements Integration {
   }
 }
 
+// Registers a listener on one instance and returns its unsubscribe function
+type InstanceSubscription<P extends string> = (
+  instance: SentryConsentIntegrationClass<P>
+) => () => void;
+
+// Typed separately because defineIntegration() erases the integration type
+const _sentryConsentIntegration = (<P extends string = DefaultConsentPurpose>(
+  options: SentryConsentIntegrationOptions<P>
+): ConsentIntegration<P> => {
+  // Each client gets its own instance, so options, scope data and queue are
+  // kept per client. The first client uses the primary instance, which also
+  // answers the state getters.
+  const primary = new SentryConsentIntegrationClass<P>(options);
+  const instances = new Map<Client, SentryConsentIntegrationClass<P>>();
+  const subscriptions = new Map<InstanceSubscription<P>, Array<() => void>>();
+
+  const getAllInstances = () => new Set([primary, ...instances.values()]);
+
+  const getInstance = (client: Client): SentryConsentIntegrationClass<P> => {
+    const existing = instances.get(client);
+    if (existing) return existing;
+
+    let instance = primary;
+    if ([...instances.values()].includes(primary)) {
+      // The persisted queue and the ledger keep a single storage, which
+      // stays with the first client
+      const {
+        queueStorage: _queueStorage,
+        ledger: _ledger,
+        ...clientOptions
+      } = options;
+      instance = new SentryConsentIntegrationClass<P>(clientOptions);
+      subscriptions.forEach((unsubscribes, subscribe) =>
+        unsubscribes.push(subscribe(instance))
+      );
+    }
+    instances.set(client, instance);
+    return instance;
+  };
+
+  const subscribe = (subscription: InstanceSubscription<P>): (() => void) => {
+    subscriptions.set(subscription, [...getAllInstances()].map(subscription));
+    return () => {
+      subscriptions.get(subscription)?.forEach((unsubscribe) => unsubscribe());
+      subscriptions.delete(subscription);
+    };
+  };
+
+  return {
+    name: primary.name,
+    setup: (client: Client) => getInstance(client).setup(client),
+    afterAllSetup: (client: Client) =>
+      instances.get(client)?.afterAllSetup(client),
+    processEvent: (event: Event, hint: EventHint, client: Client) => {
+      const instance = instances.get(client);
+      return instance ? instance.processEvent(event, hint) : event;
+    },
+    // Expose additional methods for accessing original configuration
+    getOriginalSentryConfig: () => primary.getOriginalSentryConfig(),
+    getOriginalScopeData: () => primary.getOriginalScopeData(),
+    checkAndResumeReplay: () => primary.checkAndResumeReplay(),
+    getConsentState: () => primary.getConsentState(),
+    getEffectiveConfig: () => primary.getEffectiveConfig(),
+    isReady: () => primary.isReady(),
+    isEnforcing: () => primary.isEnforcing(),
+    on: (eventName, listener) =>
+      subscribe((instance) => instance.on(eventName, listener)),
+    onConsentTransition: (purpose, kind, handler) =>
+      subscribe((instance) =>
+        instance.onConsentTransition(purpose, kind, handler)
+      ),
+    onConsentStateChange: (listener: ConsentStateListener<P>) =>
+      subscribe((instance) => instance.onConsentStateChange(listener)),
+    getConsentLedger: () => primary.getConsentLedger(),
+    exportConsentLedger: () => primary.exportConsentLedger(),
+    suspend: () => getAllInstances().forEach((instance) => instance.suspend()),
+    resume: () => getAllInstances().forEach((instance) => instance.resume()),
+    cleanup: () => getAllInstances().forEach((instance) => instance.cleanup()),
+  };
+}) satisfies IntegrationFn;
+
 /**
  * Creates a new Sentry Consent Integration instance for use in integrations array
  *
@@ -907,28 +1957,9 @@ class SentryConsentIntegrationClass implements Integration {
  * }
  * ```
  */
-export function sentryConsentIntegration(
-  options: SentryConsentIntegrationOptions
-): Integration {
-  const integration = new SentryConsentIntegrationClass(options);
-
-  return {
-    name: integration.name,
-    setupOnce: () => integration.setupOnce(),
-    processEvent: (event: Event, hint: EventHint) =>
-      integration.processEvent(event, hint),
-    // Expose additional methods for accessing original configuration
-    getOriginalSentryConfig: () => integration.getOriginalSentryConfig(),
-    getOriginalScopeData: () => integration.getOriginalScopeData(),
-    checkAndResumeReplay: () => integration.checkAndResumeReplay(),
-    cleanup: () => integration.cleanup(),
-  } as Integration & {
-    getOriginalSentryConfig(): any;
-    getOriginalScopeData(): any;
-    checkAndResumeReplay(): boolean;
-    cleanup(): void;
-  };
-}
+export const sentryConsentIntegration = defineIntegration(
+  _sentryConsentIntegration
+) as typeof _sentryConsentIntegration;
 
 // Export the class for advanced use cases
 export { SentryConsentIntegrationClass };
@@ -0,0 +1,107 @@
+import type { DefaultConsentPurpose } from '../configurationKeys.js';
+import {
+  createGetters,
+  createTriggerRegistry,
+  type ConsentAdapter,
+} from './shared.js';
+
+/**
+ * Cookiebot consent categories
+ */
+export type CookiebotCategory =
+  'necessary' | 'preferences' | 'statistics' | 'marketing';
+
+/**
+ * Subset of the Cookiebot global used by the adapter
+ */
+export interface CookiebotGlobal {
+  hasResponse?: boolean;
+  consent?: Partial<Record<CookiebotCategory, boolean>>;
+}
+
+export interface CookiebotConsentAdapterOptions<P extends string> {
+  /**
+   * Cookiebot categories that must all be accepted for each integration purpose
+   * @default DEFAULT_COOKIEBOT_CATEGORY_MAPPING
+   */
+  purposeMapping?: Record<P, CookiebotCategory[]>;
+
+  /**
+   * Object holding the `Cookiebot` global, also used for Cookiebot's
+   * window events
+   * @default window
+   */
+  target?: { Cookiebot?: CookiebotGlobal } & Partial<EventTarget>;
+}
+
+/**
+ * Default mapping of the built-in purposes to Cookiebot categories
+ */
+export const DEFAULT_COOKIEBOT_CATEGORY_MAPPING: Record<
+  DefaultConsentPurpose,
+  CookiebotCategory[]
+> = {
+  functional: ['necessary'],
+  analytics: ['statistics'],
+  preferences: ['preferences'],
+  marketing: ['marketing'],
+};
+
+const COOKIEBOT_EVENTS = [
+  'CookiebotOnConsentReady',
+  'CookiebotOnAccept',
+  'CookiebotOnDecline',
+];
+
+/**
+ * Consent adapter for Cookiebot
+ *
+ * Reads `Cookiebot.consent` once the visitor has responded
+ * (`Cookiebot.hasResponse`) and re-evaluates consent on the
+ * `CookiebotOnConsentReady`, `CookiebotOnAccept` and `CookiebotOnDecline`
+ * events.
+ */
+export function cookiebotConsentAdapter<
+  P extends string = DefaultConsentPurpose,
+>(options: CookiebotConsentAdapterOptions<P> = {}): ConsentAdapter<P> {
+  const purposeMapping =
+    options.purposeMapping ??
+    (DEFAULT_COOKIEBOT_CATEGORY_MAPPING as Record<P, CookiebotCategory[]>);
+
+  const getTarget = () =>
+    options.target ??
+    (typeof window !== 'undefined'
+      ? (window as { Cookiebot?: CookiebotGlobal } & Window)
+      : undefined);
+
+  const handleConsentEvent = (): void => registry.notify();
+
+  const registry = createTriggerRegistry({
+    onFirstSubscribe: () => {
+      COOKIEBOT_EVENTS.forEach((eventName) =>
+        getTarget()?.addEventListener?.(eventName, handleConsentEvent)
+      );
+    },
+    onLastUnsubscribe: () => {
+      COOKIEBOT_EVENTS.forEach((eventName) =>
+        getTarget()?.removeEventListener?.(eventName, handleConsentEvent)
+      );
+    },
+  });
+
+  const isGranted = (categories: CookiebotCategory[]): boolean | undefined => {
+    const cookiebot = getTarget()?.Cookiebot;
+    if (!cookiebot?.hasResponse || !cookiebot.consent) {
+      return undefined;
+    }
+
+    return categories.every(
+      (category) => cookiebot.consent?.[category] === true
+    );
+  };
+
+  return {
+    consentStateGetters: createGetters(purposeMapping, isGranted),
+    onConsentChange: (trigger) => registry.subscribe(trigger),
+  };
+}
@@ -0,0 +1,265 @@
+import type { DefaultConsentPurpose } from '../configurationKeys.js';
+import {
+  createGetters,
+  createTriggerRegistry,
+  type ConsentAdapter,
+} from './shared.js';
+
+/**
+ * Google Consent Mode v2 consent types
+ */
+export type ConsentModeType =
+  | 'ad_storage'
+  | 'ad_user_data'
+  | 'ad_personalization'
+  | 'analytics_storage'
+  | 'functionality_storage'
+  | 'personalization_storage'
+  | 'security_storage'
+  | (string & {});
+
+export type ConsentModeValue = 'granted' | 'denied';
+
+export interface GoogleConsentModeAdapterOptions<P extends string> {
+  /**
+   * Consent Mode types that must all be granted for each integration purpose
+   * @default DEFAULT_CONSENT_MODE_MAPPING
+   */
+  purposeMapping?: Record<P, ConsentModeType[]>;
+
+  /**
+   * Name of the data layer array gtag() pushes to
+   * @default 'dataLayer'
+   */
+  dataLayerName?: string;
+
+  /**
+   * Treat consent as undecided until the first `consent update` command.
+   * When false, the values from `consent default` count as a decision.
+   * @default true
+   */
+  waitForUpdate?: boolean;
+
+  /**
+   * Object holding the data layer
+   * @default window
+   */
+  target?: Record<string, unknown>;
+}
+
+/**
+ * Default mapping of the built-in purposes to Consent Mode types
+ */
+export const DEFAULT_CONSENT_MODE_MAPPING: Record<
+  DefaultConsentPurpose,
+  ConsentModeType[]
+> = {
+  functional: ['functionality_storage'],
+  analytics: ['analytics_storage'],
+  preferences: ['personalization_storage'],
+  marketing: ['ad_storage', 'ad_user_data', 'ad_personalization'],
+};
+
+type DataLayer = unknown[] & { push: (...items: unknown[]) => number };
+
+interface ConsentCommand {
+  action: 'default' | 'update';
+  values: Record<string, ConsentModeValue>;
+}
+
+/**
+ * gtag() pushes its `arguments` object, so commands are array-like
+ */
+function parseConsentCommand(entry: unknown): ConsentCommand | null {
+  if (!entry || typeof entry !== 'object') return null;
+
+  const command = entry as ArrayLike<unknown>;
+  const action = command[1];
+  const values = command[2];
+  if (
+    command[0] !== 'consent' ||
+    (action !== 'default' && action !== 'update') ||
+    !values ||
+    typeof values !== 'object'
+  ) {
+    return null;
+  }
+
+  return { action, values: values as Record<string, ConsentModeValue> };
+}
+
+/**
+ * Consent adapter for Google Consent Mode v2
+ *
+ * Reads `consent default` and `consent update` commands already in the data
+ * layer and intercepts new ones, also after gtag.js or Google Tag Manager
+ * replaced the data layer's push function. Every `consent update` triggers a
+ * consent re-evaluation in the integration.
+ *
+ * @example
+ * ```typescript
+ * Sentry.init({
+ *   integrations: [
+ *     sentryConsentIntegration({
+ *       ...googleConsentModeAdapter(),
+ *     }),
+ *   ],
+ * });
+ * ```
+ */
+export function googleConsentModeAdapter<
+  P extends string = DefaultConsentPurpose,
+>(options: GoogleConsentModeAdapterOptions<P> = {}): ConsentAdapter<P> {
+  const purposeMapping =
+    options.purposeMapping ??
+    (DEFAULT_CONSENT_MODE_MAPPING as Record<P, ConsentModeType[]>);
+  const dataLayerName = options.dataLayerName ?? 'dataLayer';
+  const waitForUpdate = options.waitForUpdate ?? true;
+
+  const consentValues: Record<string, ConsentModeValue> = {};
+  let hasDefault = false;
+  let hasUpdate = false;
+  let isSubscribed = false;
+  let readFrom: DataLayer | null = null;
+  let processedEntries = 0;
+  let installed: { dataLayer: DataLayer; restore: () => boolean } | null = null;
+
+  const getTarget = (): Record<string, unknown> | undefined =>
+    options.target ??
+    (typeof window !== 'undefined'
+      ? (window as unknown as Record<string, unknown>)
+      : undefined);
+
+  const getDataLayer = (): DataLayer | undefined => {
+    const target = getTarget();
+    if (!target) return undefined;
+    if (!Array.isArray(target[dataLayerName])) {
+      target[dataLayerName] = [];
+    }
+    return target[dataLayerName] as DataLayer;
+  };
+
+  const applyCommand = (command: ConsentCommand): void => {
+    Object.assign(consentValues, command.values);
+    if (command.action === 'default') hasDefault = true;
+    if (command.action === 'update') hasUpdate = true;
+  };
+
+  // Catch up on commands pushed before the adapter was created or before
+  // the wrapper was installed
+  const readDataLayer = (): void => {
+    const dataLayer = getDataLayer();
+    if (!dataLayer) return;
+    if (dataLayer !== readFrom) {
+      readFrom = dataLayer;
+      processedEntries = 0;
+    }
+
+    for (; processedEntries < dataLayer.length; processedEntries++) {
+      const command = parseConsentCommand(dataLayer[processedEntries]);
+      if (command) applyCommand(command);
+    }
+  };
+
+  const handlePushedItems = (items: unknown[]): void => {
+    const commands = items
+      .map(parseConsentCommand)
+      .filter((command): command is ConsentCommand => command !== null);
+
+    readDataLayer();
+    if (
+      commands.some((command) => command.action === 'update' || !waitForUpdate)
+    ) {
+      registry.notify();
+    }
+  };
+
+  // Wraps the push function of a data layer, returns a function that puts
+  // the original back if nothing replaced the wrapper
+  const wrapPush = (dataLayer: DataLayer): (() => boolean) => {
+    const descriptor = Object.getOwnPropertyDescriptor(dataLayer, 'push');
+    // Push functions in the order they were installed on the data layer
+    const pushes: Array<DataLayer['push']> = [dataLayer.push];
+    let depth = 0;
+
+    const wrappedPush = function (this: DataLayer, ...items: unknown[]) {
+      // A push function installed later usually calls the one it replaced,
+      // which is this wrapper again; hand such calls on to the next one
+      const push =
+        pushes[pushes.length - 1 - depth] ??
+        (Array.prototype.push as DataLayer['push']);
+      depth++;
+      let result: number;
+      try {
+        result = push.apply(this, items);
+      } finally {
+        depth--;
+      }
+      if (depth === 0) handlePushedItems(items);
+      return result;
+    };
+
+    // gtag.js and Google Tag Manager replace push when they load, which
+    // would bypass a plain wrapper; keep the wrapper in front instead
+    Object.defineProperty(dataLayer, 'push', {
+      configurable: true,
+      enumerable: false,
+      get: () => wrappedPush,
+      set: (push: DataLayer['push']) => {
+        pushes.push(push);
+      },
+    });
+
+    return () => {
+      // Replacements may still call the wrapper, which then passes their
+      // calls on
+      if (pushes.length > 1) return false;
+
+      if (descriptor) {
+        Object.defineProperty(dataLayer, 'push', descriptor);
+      } else {
+        delete (dataLayer as Partial<DataLayer>).push;
+      }
+      return true;
+    };
+  };
+
+  const uninstallWrapper = (): void => {
+    if (installed?.restore()) installed = null;
+  };
+
+  const installWrapper = (): void => {
+    const dataLayer = getDataLayer();
+    if (!dataLayer || installed?.dataLayer === dataLayer) return;
+
+    uninstallWrapper();
+    installed = { dataLayer, restore: wrapPush(dataLayer) };
+  };
+
+  const registry = createTriggerRegistry({
+    onFirstSubscribe: () => {
+      isSubscribed = true;
+      installWrapper();
+    },
+    onLastUnsubscribe: () => {
+      isSubscribed = false;
+      uninstallWrapper();
+    },
+  });
+
+  const isGranted = (types: ConsentModeType[]): boolean | undefined => {
+    // The data layer itself may have been replaced since the last read
+    if (isSubscribed) installWrapper();
+    readDataLayer();
+    if (waitForUpdate ? !hasUpdate : !hasDefault && !hasUpdate) {
+      return undefined;
+    }
+
+    return types.every((type) => consentValues[type] === 'granted');
+  };
+
+  return {
+    consentStateGetters: createGetters(purposeMapping, isGranted),
+    onConsentChange: (trigger) => registry.subscribe(trigger),
+  };
+}
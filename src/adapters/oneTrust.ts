@@ -0,0 +1,124 @@
+import type { DefaultConsentPurpose } from '../configurationKeys.js';
+import {
+  createGetters,
+  createTriggerRegistry,
+  type ConsentAdapter,
+} from './shared.js';
+
+/**
+ * Subset of the OneTrust globals used by the adapter
+ */
+export interface OneTrustGlobals {
+  OptanonActiveGroups?: string;
+  OneTrust?: {
+    IsAlertBoxClosed?: () => boolean;
+    OnConsentChanged?: (callback: () => void) => void;
+  };
+}
+
+export interface OneTrustConsentAdapterOptions<P extends string> {
+  /**
+   * OneTrust category IDs that must all be active for each integration purpose
+   * @default DEFAULT_ONETRUST_CATEGORY_MAPPING
+   */
+  purposeMapping?: Record<P, string[]>;
+
+  /**
+   * Treat consent as undecided until the banner has been closed
+   * (`OneTrust.IsAlertBoxClosed()`), e.g. set to false where the banner is
+   * not shown and the default categories apply
+   * @default true
+   */
+  requireInteraction?: boolean;
+
+  /**
+   * Object holding the OneTrust globals, also used for the
+   * `OneTrustGroupsUpdated` event
+   * @default window
+   */
+  target?: OneTrustGlobals & Partial<EventTarget>;
+}
+
+/**
+ * Default mapping of the built-in purposes to OneTrust's standard categories
+ */
+export const DEFAULT_ONETRUST_CATEGORY_MAPPING: Record<
+  DefaultConsentPurpose,
+  string[]
+> = {
+  functional: ['C0001'], // Strictly Necessary
+  analytics: ['C0002'], // Performance
+  preferences: ['C0003'], // Functional
+  marketing: ['C0004'], // Targeting
+};
+
+const GROUPS_UPDATED_EVENT = 'OneTrustGroupsUpdated';
+
+/**
+ * Consent adapter for OneTrust
+ *
+ * Reads active categories from `OptanonActiveGroups` and re-evaluates consent
+ * on `OneTrust.OnConsentChanged` and the `OneTrustGroupsUpdated` event.
+ */
+export function oneTrustConsentAdapter<
+  P extends string = DefaultConsentPurpose,
+>(options: OneTrustConsentAdapterOptions<P> = {}): ConsentAdapter<P> {
+  const purposeMapping =
+    options.purposeMapping ??
+    (DEFAULT_ONETRUST_CATEGORY_MAPPING as Record<P, string[]>);
+  const requireInteraction = options.requireInteraction ?? true;
+  let isConsentChangedRegistered = false;
+
+  const getTarget = (): (OneTrustGlobals & Partial<EventTarget>) | undefined =>
+    options.target ??
+    (typeof window !== 'undefined'
+      ? (window as OneTrustGlobals & Window)
+      : undefined);
+
+  const handleConsentChanged = (): void => registry.notify();
+
+  // OnConsentChanged callbacks cannot be removed, so register only once and
+  // rely on the trigger registry to decide whether anyone is listening
+  const registerConsentChanged = (): void => {
+    const oneTrust = getTarget()?.OneTrust;
+    if (isConsentChangedRegistered || !oneTrust?.OnConsentChanged) return;
+    oneTrust.OnConsentChanged(handleConsentChanged);
+    isConsentChangedRegistered = true;
+  };
+
+  const registry = createTriggerRegistry({
+    onFirstSubscribe: () => {
+      registerConsentChanged();
+      getTarget()?.addEventListener?.(
+        GROUPS_UPDATED_EVENT,
+        handleConsentChanged
+      );
+    },
+    onLastUnsubscribe: () => {
+      getTarget()?.removeEventListener?.(
+        GROUPS_UPDATED_EVENT,
+        handleConsentChanged
+      );
+    },
+  });
+
+  const isGranted = (categories: string[]): boolean | undefined => {
+    const target = getTarget();
+    const activeGroups = target?.OptanonActiveGroups;
+    const isDecided = requireInteraction
+      ? target?.OneTrust?.IsAlertBoxClosed?.() === true
+      : activeGroups !== undefined;
+    if (!isDecided || activeGroups === undefined) {
+      return undefined;
+    }
+
+    registerConsentChanged();
+    const active = activeGroups.split(',').filter(Boolean);
+    return categories.every((category) => active.includes(category));
+  };
+
+  return {
+    consentStateGetters: createGetters(purposeMapping, isGranted),
+    onConsentChange: (trigger) => registry.subscribe(trigger),
+  };
+}
@@ -0,0 +1,58 @@
+import type { DefaultConsentPurpose } from '../configurationKeys.js';
+import type { SentryConsentIntegrationOptions } from '../SentryConsentIntegration.js';
+
+/**
+ * Options produced by a consent management platform adapter
+ * Can be spread directly into sentryConsentIntegration()
+ */
+export type ConsentAdapter<P extends string = DefaultConsentPurpose> = Pick<
+  SentryConsentIntegrationOptions<P>,
+  'consentStateGetters' | 'onConsentChange'
+>;
+
+/**
+ * Keeps track of the trigger functions registered through onConsentChange
+ * and runs setup/teardown when the first trigger is added or the last one
+ * is removed
+ */
+export function createTriggerRegistry(
+  hooks: {
+    onFirstSubscribe?: () => void;
+    onLastUnsubscribe?: () => void;
+  } = {}
+) {
+  const triggers = new Set<() => void>();
+
+  return {
+    subscribe(trigger: () => void): () => void {
+      triggers.add(trigger);
+      if (triggers.size === 1) hooks.onFirstSubscribe?.();
+
+      return () => {
+        if (triggers.delete(trigger) && triggers.size === 0) {
+          hooks.onLastUnsubscribe?.();
+        }
+      };
+    },
+    notify(): void {
+      triggers.forEach((trigger) => trigger());
+    },
+  };
+}
+
+/**
+ * Build getters for every purpose of a mapping from one lookup function
+ * The lookup returns undefined while the platform has not provided a consent
+ * decision yet, so the integration keeps waiting instead of treating it as a
+ * denial
+ */
+export function createGetters<P extends string, M>(
+  purposeMapping: Record<P, M>,
+  isGranted: (mapping: M) => boolean | undefined
+): ConsentAdapter<P>['consentStateGetters'] {
+  const getters: ConsentAdapter<P>['consentStateGetters'] = {};
+  (Object.keys(purposeMapping) as P[]).forEach((purpose) => {
+    getters[purpose] = () => isGranted(purposeMapping[purpose]);
+  });
+  return getters;
+}
@@ -0,0 +1,195 @@
+import type { DefaultConsentPurpose } from '../configurationKeys.js';
+import {
+  createGetters,
+  createTriggerRegistry,
+  type ConsentAdapter,
+} from './shared.js';
+
+/**
+ * Subset of the IAB TCF v2.2 TCData object used by the adapter
+ */
+export interface TCData {
+  gdprApplies?: boolean;
+  eventStatus?: 'tcloaded' | 'cmpuishown' | 'useractioncomplete';
+  listenerId?: number;
+  purpose?: {
+    consents?: Record<string, boolean>;
+    legitimateInterests?: Record<string, boolean>;
+  };
+  specialFeatureOptins?: Record<string, boolean>;
+  vendor?: {
+    consents?: Record<string, boolean>;
+    legitimateInterests?: Record<string, boolean>;
+  };
+}
+
+export type TcfApi = (
+  command: string,
+  version: number,
+  callback: (...args: any[]) => void,
+  parameter?: unknown
+) => void;
+
+/**
+ * TCF purposes and special features an integration purpose depends on
+ */
+export interface TcfPurposeRequirement {
+  /**
+   * TCF purpose IDs that must all have consent
+   */
+  purposes?: number[];
+
+  /**
+   * TCF special feature IDs that must all be opted in
+   */
+  specialFeatures?: number[];
+
+  /**
+   * Accept legitimate interest instead of consent for the listed purposes
+   * @default false
+   */
+  allowLegitimateInterest?: boolean;
+}
+
+export interface TcfConsentAdapterOptions<P extends string> {
+  /**
+   * TCF requirements for each integration purpose
+   * @default DEFAULT_TCF_PURPOSE_MAPPING
+   */
+  purposeMapping?: Record<P, TcfPurposeRequirement>;
+
+  /**
+   * Global Vendor List ID whose vendor consent is required in addition to
+   * the purposes, if the Sentry setup is registered as a vendor
+   */
+  vendorId?: number;
+
+  /**
+   * Object holding the `__tcfapi` function
+   * @default window
+   */
+  target?: { __tcfapi?: TcfApi };
+}
+
+/**
+ * Default mapping of the built-in purposes to TCF v2.2 purposes
+ *
+ * - functional: 1 (store and/or access information on a device)
+ * - analytics: 1, 8 (measure content performance), 10 (improve products)
+ * - preferences: 1, 5, 6 (personalised content profile and use)
+ * - marketing: 1, 3, 4 (personalised advertising profile and use)
+ */
+export const DEFAULT_TCF_PURPOSE_MAPPING: Record<
+  DefaultConsentPurpose,
+  TcfPurposeRequirement
+> = {
+  functional: { purposes: [1] },
+  analytics: { purposes: [1, 8, 10] },
+  preferences: { purposes: [1, 5, 6] },
+  marketing: { purposes: [1, 3, 4] },
+};
+
+const TCF_VERSION = 2;
+
+/**
+ * Consent adapter for CMPs implementing the IAB TCF v2.2 `__tcfapi`
+ *
+ * Registers a TCF event listener and reports consent once the CMP signals
+ * `tcloaded` or `useractioncomplete`. Until then the getters report consent
+ * as undecided, so the integration keeps queuing events while the banner is
+ * shown.
+ *
+ * @example
+ * ```typescript
+ * Sentry.init({
+ *   integrations: [
+ *     sentryConsentIntegration({
+ *       ...tcfConsentAdapter(),
+ *     }),
+ *   ],
+ * });
+ * ```
+ */
+export function tcfConsentAdapter<P extends string = DefaultConsentPurpose>(
+  options: TcfConsentAdapterOptions<P> = {}
+): ConsentAdapter<P> {
+  const purposeMapping =
+    options.purposeMapping ??
+    (DEFAULT_TCF_PURPOSE_MAPPING as Record<P, TcfPurposeRequirement>);
+  let tcData: TCData | null = null;
+  let listenerId: number | undefined;
+  let isListening = false;
+
+  const getApi = (): TcfApi | undefined => {
+    const target =
+      options.target ??
+      (typeof window !== 'undefined'
+        ? (window as { __tcfapi?: TcfApi })
+        : undefined);
+    return typeof target?.__tcfapi === 'function' ? target.__tcfapi : undefined;
+  };
+
+  const registry = createTriggerRegistry({
+    onLastUnsubscribe: () => {
+      const api = getApi();
+      if (api && listenerId !== undefined) {
+        api('removeEventListener', TCF_VERSION, () => {}, listenerId);
+      }
+      isListening = false;
+      listenerId = undefined;
+    },
+  });
+
+  const startListening = (): void => {
+    const api = getApi();
+    if (isListening || !api) return;
+    isListening = true;
+
+    api('addEventListener', TCF_VERSION, (data: TCData, success: boolean) => {
+      if (!success || !data) return;
+      listenerId = data.listenerId ?? listenerId;
+
+      if (
+        data.eventStatus === 'tcloaded' ||
+        data.eventStatus === 'useractioncomplete'
+      ) {
+        tcData = data;
+        registry.notify();
+      }
+    });
+  };
+
+  const isGranted = (
+    requirement: TcfPurposeRequirement
+  ): boolean | undefined => {
+    startListening();
+    if (!tcData) return undefined;
+
+    // Consent is not required where GDPR does not apply
+    if (tcData.gdprApplies === false) return true;
+
+    const purposesGranted = (requirement.purposes ?? []).every(
+      (id) =>
+        tcData?.purpose?.consents?.[id] === true ||
+        (requirement.allowLegitimateInterest === true &&
+          tcData?.purpose?.legitimateInterests?.[id] === true)
+    );
+    const specialFeaturesGranted = (requirement.specialFeatures ?? []).every(
+      (id) => tcData?.specialFeatureOptins?.[id] === true
+    );
+    const vendorGranted =
+      options.vendorId === undefined ||
+      tcData.vendor?.consents?.[options.vendorId] === true;
+
+    return purposesGranted && specialFeaturesGranted && vendorGranted;
+  };
+
+  return {
+    consentStateGetters: createGetters(purposeMapping, isGranted),
+    onConsentChange: (trigger) => {
+      const unsubscribe = registry.subscribe(trigger);
+      startListening();
+      return unsubscribe;
+    },
+  };
+}
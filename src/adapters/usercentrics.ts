@@ -0,0 +1,138 @@
+import type { DefaultConsentPurpose } from '../configurationKeys.js';
+import {
+  createGetters,
+  createTriggerRegistry,
+  type ConsentAdapter,
+} from './shared.js';
+
+/**
+ * Subset of a Usercentrics service as returned by `UC_UI.getServicesBaseInfo()`
+ */
+export interface UsercentricsService {
+  id: string;
+  name?: string;
+  categorySlug: string;
+  consent?: { status?: boolean };
+}
+
+/**
+ * Subset of the Usercentrics v2 `UC_UI` global used by the adapter
+ */
+export interface UsercentricsUI {
+  isInitialized?: () => boolean;
+  isConsentRequired?: () => boolean;
+  getServicesBaseInfo?: () => UsercentricsService[];
+}
+
+/**
+ * Detail of the Usercentrics window event (`ucEvent` by default)
+ * Category values can also be 'partial' when only some services are accepted
+ */
+export interface UsercentricsEventDetail {
+  event?: string;
+  type?: 'explicit' | 'implicit';
+  ucCategory?: Record<string, boolean | string>;
+}
+
+export interface UsercentricsConsentAdapterOptions<P extends string> {
+  /**
+   * Usercentrics category slugs that must all be fully accepted for each
+   * integration purpose
+   * @default DEFAULT_USERCENTRICS_CATEGORY_MAPPING
+   */
+  purposeMapping?: Record<P, string[]>;
+
+  /**
+   * Name of the window event configured in the Usercentrics admin interface
+   * @default 'ucEvent'
+   */
+  eventName?: string;
+
+  /**
+   * Object holding the `UC_UI` global and receiving the window event
+   * @default window
+   */
+  target?: { UC_UI?: UsercentricsUI } & Partial<EventTarget>;
+}
+
+/**
+ * Default mapping of the built-in purposes to Usercentrics' standard
+ * categories. Usercentrics ships analytics services in its `marketing`
+ * category, so analytics needs marketing consent unless remapped.
+ */
+export const DEFAULT_USERCENTRICS_CATEGORY_MAPPING: Record<
+  DefaultConsentPurpose,
+  string[]
+> = {
+  functional: ['essential'],
+  analytics: ['marketing'],
+  preferences: ['functional'],
+  marketing: ['marketing'],
+};
+
+/**
+ * Consent adapter for Usercentrics (v2 browser UI)
+ *
+ * Category consent comes from the latest explicit `ucEvent` or, for visitors
+ * who decided on an earlier page, from `UC_UI.getServicesBaseInfo()`.
+ * A category counts as granted when all of its services are accepted.
+ */
+export function usercentricsConsentAdapter<
+  P extends string = DefaultConsentPurpose,
+>(options: UsercentricsConsentAdapterOptions<P> = {}): ConsentAdapter<P> {
+  const purposeMapping =
+    options.purposeMapping ??
+    (DEFAULT_USERCENTRICS_CATEGORY_MAPPING as Record<P, string[]>);
+  const eventName = options.eventName ?? 'ucEvent';
+  let lastCategories: Record<string, boolean | string> | null = null;
+
+  const getTarget = () =>
+    options.target ??
+    (typeof window !== 'undefined'
+      ? (window as { UC_UI?: UsercentricsUI } & Window)
+      : undefined);
+
+  const handleUsercentricsEvent = (event: Event): void => {
+    const detail = (event as CustomEvent<UsercentricsEventDetail>).detail;
+    if (detail?.type === 'explicit' && detail.ucCategory) {
+      lastCategories = detail.ucCategory;
+    }
+    registry.notify();
+  };
+
+  const registry = createTriggerRegistry({
+    onFirstSubscribe: () => {
+      getTarget()?.addEventListener?.(eventName, handleUsercentricsEvent);
+    },
+    onLastUnsubscribe: () => {
+      getTarget()?.removeEventListener?.(eventName, handleUsercentricsEvent);
+    },
+  });
+
+  const readCategoriesFromServices = (): Record<string, boolean> | null => {
+    const ui = getTarget()?.UC_UI;
+    if (!ui?.isInitialized?.() || ui.isConsentRequired?.() !== false) {
+      return null;
+    }
+
+    const categories: Record<string, boolean> = {};
+    (ui.getServicesBaseInfo?.() ?? []).forEach((service) => {
+      categories[service.categorySlug] =
+        (categories[service.categorySlug] ?? true) &&
+        service.consent?.status === true;
+    });
+    return categories;
+  };
+
+  const isGranted = (categorySlugs: string[]): boolean | undefined => {
+    const categories = lastCategories ?? readCategoriesFromServices();
+    if (!categories) return undefined;
+
+    return categorySlugs.every((slug) => categories[slug] === true);
+  };
+
+  return {
+    consentStateGetters: createGetters(purposeMapping, isGranted),
+    onConsentChange: (trigger) => registry.subscribe(trigger),
+  };
+}
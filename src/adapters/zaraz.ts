@@ -0,0 +1,143 @@
+import {
+  createGetters,
+  createTriggerRegistry,
+  type ConsentAdapter,
+} from './shared.js';
+
+/**
+ * Subset of the Cloudflare Zaraz consent API used by the adapter
+ */
+export interface ZarazConsentApi {
+  APIReady?: boolean;
+  get(purposeId: string): boolean | undefined;
+}
+
+/**
+ * How several Zaraz purposes combine into one integration purpose
+ * - all: every listed Zaraz purpose must be granted
+ * - any: at least one listed Zaraz purpose must be granted
+ */
+export type ZarazPurposeMatch = 'all' | 'any';
+
+export type ZarazPurposeRequirement =
+  string[] | { purposes: string[]; match?: ZarazPurposeMatch };
+
+export interface ZarazConsentAdapterOptions<P extends string> {
+  /**
+   * Zaraz purpose IDs each integration purpose depends on
+   *
+   * @example
+   * ```typescript
+   * purposeMapping: {
+   *   functional: ['YYY'],
+   *   analytics: { purposes: ['USeX', 'abcd'], match: 'any' },
+   * }
+   * ```
+   */
+  purposeMapping: Record<P, ZarazPurposeRequirement>;
+
+  /**
+   * Match mode used for mappings given as a plain array
+   * @default 'all'
+   */
+  match?: ZarazPurposeMatch;
+
+  /**
+   * Object holding the `zaraz` global
+   * @default window
+   */
+  target?: { zaraz?: { consent?: ZarazConsentApi } };
+
+  /**
+   * Where Zaraz dispatches its consent events
+   * @default document
+   */
+  eventTarget?: Pick<EventTarget, 'addEventListener' | 'removeEventListener'>;
+}
+
+const API_READY_EVENT = 'zarazConsentAPIReady';
+const CHOICES_UPDATED_EVENT = 'zarazConsentChoicesUpdated';
+
+/**
+ * Consent adapter for Cloudflare Zaraz consent management
+ *
+ * Getters report consent as undecided until `zaraz.consent.APIReady` is true
+ * so the integration keeps waiting. Readiness and choice changes are picked up from the
+ * `zarazConsentAPIReady` and `zarazConsentChoicesUpdated` events instead of
+ * polling.
+ *
+ * @example
+ * ```typescript
+ * Sentry.init({
+ *   integrations: [
+ *     sentryConsentIntegration({
+ *       ...zarazConsentAdapter({
+ *         purposeMapping: {
+ *           functional: ['YYY'],
+ *           analytics: ['USeX'],
+ *           marketing: ['dqVA'],
+ *           preferences: ['NNN'],
+ *         },
+ *       }),
+ *     }),
+ *   ],
+ * });
+ * ```
+ */
+export function zarazConsentAdapter<P extends string>(
+  options: ZarazConsentAdapterOptions<P>
+): ConsentAdapter<P> {
+  const defaultMatch = options.match ?? 'all';
+
+  const getConsentApi = (): ZarazConsentApi | undefined => {
+    const target =
+      options.target ??
+      (typeof window !== 'undefined'
+        ? (window as { zaraz?: { consent?: ZarazConsentApi } })
+        : undefined);
+    return target?.zaraz?.consent;
+  };
+
+  const getEventTarget = () =>
+    options.eventTarget ??
+    (typeof document !== 'undefined' ? document : undefined);
+
+  const handleConsentEvent = (): void => registry.notify();
+
+  const registry = createTriggerRegistry({
+    onFirstSubscribe: () => {
+      const eventTarget = getEventTarget();
+      eventTarget?.addEventListener(API_READY_EVENT, handleConsentEvent);
+      eventTarget?.addEventListener(CHOICES_UPDATED_EVENT, handleConsentEvent);
+    },
+    onLastUnsubscribe: () => {
+      const eventTarget = getEventTarget();
+      eventTarget?.removeEventListener(API_READY_EVENT, handleConsentEvent);
+      eventTarget?.removeEventListener(
+        CHOICES_UPDATED_EVENT,
+        handleConsentEvent
+      );
+    },
+  });
+
+  const isGranted = (
+    requirement: ZarazPurposeRequirement
+  ): boolean | undefined => {
+    const consentApi = getConsentApi();
+    if (!consentApi?.APIReady) return undefined;
+
+    const { purposes, match = defaultMatch } = Array.isArray(requirement)
+      ? { purposes: requirement }
+      : requirement;
+    const isPurposeGranted = (id: string) => consentApi.get(id) === true;
+
+    return match === 'any'
+      ? purposes.some(isPurposeGranted)
+      : purposes.every(isPurposeGranted);
+  };
+
+  return {
+    consentStateGetters: createGetters(options.purposeMapping, isGranted),
+    onConsentChange: (trigger) => registry.subscribe(trigger),
+  };
+}
@@ -45,6 +45,22 @@ export const SENTRY_CONFIG_DESCRIPTIONS: Record<
   tracesSampleRate: 'Percentage of transactions to trace',
 } as const;
 
+/**
+ * Consent purposes supported out of the box
+ * Custom purpose names can be used in addition to or instead of these
+ */
+export const DEFAULT_CONSENT_PURPOSES = [
+  'functional',
+  'analytics',
+  'marketing',
+  'preferences',
+] as const;
+
+/**
+ * Type representing the built-in consent purposes
+ */
+export type DefaultConsentPurpose = (typeof DEFAULT_CONSENT_PURPOSES)[number];
+
 /**
  * Configuration keys that are typically restricted based on consent categories
  */
@@ -0,0 +1,177 @@
+import type { Event } from '@sentry/core';
+
+import type { DefaultConsentPurpose } from './configurationKeys.js';
+import type { ConsentState } from './SentryConsentIntegration.js';
+
+/**
+ * Previous and new value of a purpose whose consent changed
+ */
+export interface ConsentPurposeChange {
+  from: boolean | undefined;
+  to: boolean | undefined;
+}
+
+/**
+ * Purposes whose consent changed, keyed by purpose
+ */
+export type ConsentStateDiff<P extends string = DefaultConsentPurpose> = {
+  [K in P]?: ConsentPurposeChange;
+};
+
+/**
+ * Payloads of the lifecycle events emitted by the integration
+ */
+export interface ConsentIntegrationEventMap<
+  P extends string = DefaultConsentPurpose,
+> {
+  /**
+   * The initial consent decision (or the timeout fallback) was applied
+   */
+  ready: { consentState: ConsentState<P>; hasConsent: boolean };
+
+  /**
+   * Consent changed after the integration became ready
+   */
+  consentChanged: {
+    previous: ConsentState<P>;
+    current: ConsentState<P>;
+    diff: ConsentStateDiff<P>;
+    hasConsent: boolean;
+  };
+
+  /**
+   * Consent-controlled Sentry options were updated
+   */
+  configApplied: {
+    consentState: ConsentState<P>;
+    config: Record<string, unknown>;
+  };
+
+  /**
+   * An event was held back while waiting for consent
+   */
+  eventQueued: { event: Event; queueSize: number };
+
+  /**
+   * An event was not sent, because consent is denied, because it came from
+   * an integration disabled for lack of consent, or because the pre-consent
+   * queue was full
+   */
+  eventBlocked: {
+    event: Event;
+    reason: 'consent_denied' | 'integration_disabled' | 'queue_limit';
+  };
+
+  /**
+   * A queued event was sent after consent was granted
+   */
+  eventReleased: { event: Event; waitMs: number };
+
+  /**
+   * The pre-consent queue was emptied, either by releasing its events or by
+   * discarding them. `dropped` counts events lost to queue limits.
+   */
+  queueFlushed: { released: number; discarded: number; dropped: number };
+
+  /**
+   * An integration was disabled or enabled again because consent for its
+   * purpose changed
+   */
+  integrationToggled: { name: string; purpose: P; enabled: boolean };
+
+  /**
+   * Session Replay recording was stopped because of unsafe privacy settings
+   */
+  replayStopped: { warnings: string[] };
+
+  /**
+   * Session Replay recording was resumed after it had been stopped
+   */
+  replayResumed: Record<string, never>;
+
+  /**
+   * Consent enforcement was handed back to the host application
+   */
+  suspended: Record<string, never>;
+
+  /**
+   * Consent enforcement was taken up again after a suspension
+   */
+  resumed: Record<string, never>;
+
+  /**
+   * The integration was torn down with cleanup() and no longer enforces
+   * consent until it is set up again
+   */
+  tornDown: Record<string, never>;
+}
+
+export type ConsentIntegrationEventName =
+  keyof ConsentIntegrationEventMap<string>;
+
+export type ConsentIntegrationEventListener<
+  P extends string,
+  E extends ConsentIntegrationEventName,
+> = (payload: ConsentIntegrationEventMap<P>[E]) => void;
+
+/**
+ * Minimal typed event emitter. Listener errors are reported through
+ * `onListenerError` so they cannot break consent handling.
+ */
+export function createConsentEventEmitter<P extends string>(
+  onListenerError: (eventName: string, error: unknown) => void
+) {
+  const listeners = new Map<string, Set<(payload: unknown) => void>>();
+
+  return {
+    on<E extends ConsentIntegrationEventName>(
+      eventName: E,
+      listener: ConsentIntegrationEventListener<P, E>
+    ): () => void {
+      let eventListeners = listeners.get(eventName);
+      if (!eventListeners) {
+        eventListeners = new Set();
+        listeners.set(eventName, eventListeners);
+      }
+      const entry = listener as (payload: unknown) => void;
+      eventListeners.add(entry);
+
+      return () => {
+        listeners.get(eventName)?.delete(entry);
+      };
+    },
+    emit<E extends ConsentIntegrationEventName>(
+      eventName: E,
+      payload: ConsentIntegrationEventMap<P>[E]
+    ): void {
+      listeners.get(eventName)?.forEach((listener) => {
+        try {
+          listener(payload);
+        } catch (error) {
+          onListenerError(eventName, error);
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Per-purpose differences between two consent states
+ */
+export function diffConsentStates<P extends string>(
+  previous: ConsentState<P>,
+  current: ConsentState<P>
+): ConsentStateDiff<P> {
+  const diff: ConsentStateDiff<P> = {};
+  const purposes = new Set([
+    ...Object.keys(previous),
+    ...Object.keys(current),
+  ]) as Set<P>;
+
+  purposes.forEach((purpose) => {
+    if (previous[purpose] !== current[purpose]) {
+      diff[purpose] = { from: previous[purpose], to: current[purpose] };
+    }
+  });
+  return diff;
+}
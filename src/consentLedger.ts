@@ -0,0 +1,182 @@
+import type { DefaultConsentPurpose } from './configurationKeys.js';
+import type { ConsentState } from './SentryConsentIntegration.js';
+import { fnv1aHash } from './utils.js';
+
+/**
+ * What caused a consent state to be applied
+ * - initial: the first decision read from the consent state getters
+ * - timeout: the consent timeout fallback
+ * - change: a consent change after the integration became ready
+ */
+export type ConsentLedgerTrigger = 'initial' | 'timeout' | 'change';
+
+/**
+ * Number of events handled by the integration since it was set up
+ * Consecutive ledger entries can be diffed to see what happened under each
+ * consent state.
+ */
+export interface ConsentLedgerCounts {
+  /**
+   * Events held back while waiting for consent
+   */
+  queued: number;
+
+  /**
+   * Queued events sent after consent was granted
+   */
+  released: number;
+
+  /**
+   * Events that were not sent: blocked while consent was denied, discarded
+   * from the queue, or dropped because of queue limits
+   */
+  blocked: number;
+}
+
+export interface ConsentLedgerEntry<P extends string = DefaultConsentPurpose> {
+  /**
+   * ISO 8601 time at which the consent state was applied
+   */
+  timestamp: string;
+  trigger: ConsentLedgerTrigger;
+  consentState: ConsentState<P>;
+  hasConsent: boolean;
+
+  /**
+   * Hash of the consent-controlled Sentry options applied for this state
+   */
+  configHash: string;
+  counts: ConsentLedgerCounts;
+}
+
+/**
+ * Storage adapter for ledger entries
+ * Entries are appended in the order they are written.
+ */
+export interface ConsentLedgerStorage<
+  P extends string = DefaultConsentPurpose,
+> {
+  append(entry: ConsentLedgerEntry<P>): Promise<void>;
+  load(): Promise<ConsentLedgerEntry<P>[]>;
+  clear(): Promise<void>;
+}
+
+export interface ConsentLedgerOptions<
+  P extends string = DefaultConsentPurpose,
+> {
+  /**
+   * Where entries are kept
+   * @default memoryLedgerStorage()
+   */
+  storage?: ConsentLedgerStorage<P>;
+}
+
+/**
+ * Ledger storage keeping the latest entries in memory
+ */
+export function memoryLedgerStorage<P extends string = DefaultConsentPurpose>(
+  options: { maxEntries?: number } = {}
+): ConsentLedgerStorage<P> {
+  const maxEntries = options.maxEntries ?? 100;
+  let entries: ConsentLedgerEntry<P>[] = [];
+
+  return {
+    async append(entry) {
+      entries = [...entries, entry].slice(-maxEntries);
+    },
+    async load() {
+      return [...entries];
+    },
+    async clear() {
+      entries = [];
+    },
+  };
+}
+
+function toStableJson(value: unknown): string {
+  if (typeof value === 'function') {
+    return JSON.stringify(`[Function ${value.name || 'anonymous'}]`);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(toStableJson).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${toStableJson((value as Record<string, unknown>)[key])}`
+      );
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Deterministic FNV-1a hash of a Sentry options object
+ * Functions are represented by their name, so replacing a callback with one
+ * of the same name does not change the hash.
+ */
+export function hashConfig(config: Record<string, unknown>): string {
+  return fnv1aHash(toStableJson(config));
+}
+
+/**
+ * Keeps running event counts and writes an entry for every applied consent
+ * state
+ */
+export class ConsentLedger<P extends string = DefaultConsentPurpose> {
+  private counts: ConsentLedgerCounts = { queued: 0, released: 0, blocked: 0 };
+  private pendingWrites: Promise<void> = Promise.resolve();
+
+  constructor(
+    private storage: ConsentLedgerStorage<P>,
+    private onStorageError: (error: unknown) => void = () => {}
+  ) {}
+
+  public count(kind: keyof ConsentLedgerCounts, amount = 1): void {
+    this.counts[kind] += amount;
+  }
+
+  public record(
+    trigger: ConsentLedgerTrigger,
+    consentState: ConsentState<P>,
+    hasConsent: boolean,
+    config: Record<string, unknown>
+  ): void {
+    const entry: ConsentLedgerEntry<P> = {
+      timestamp: new Date().toISOString(),
+      trigger,
+      consentState: { ...consentState },
+      hasConsent,
+      configHash: hashConfig(config),
+      counts: { ...this.counts },
+    };
+
+    // Keep entries in order even if the storage is slow
+    this.pendingWrites = this.pendingWrites
+      .then(() => this.storage.append(entry))
+      .catch(this.onStorageError);
+  }
+
+  public async entries(): Promise<ConsentLedgerEntry<P>[]> {
+    await this.pendingWrites;
+    return this.storage.load();
+  }
+
+  /**
+   * Ledger entries and the current counts as a JSON document
+   */
+  public async export(): Promise<string> {
+    const entries = await this.entries();
+    return JSON.stringify(
+      {
+        exportedAt: new Date().toISOString(),
+        counts: { ...this.counts },
+        entries,
+      },
+      null,
+      2
+    );
+  }
+}
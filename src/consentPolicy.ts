@@ -0,0 +1,230 @@
+import {
+  DEFAULT_CONSENT_PURPOSES,
+  SENTRY_CONSENT_CONFIG_KEYS,
+  SENTRY_DEFAULT_CONFIG,
+  type DefaultConsentPurpose,
+  type SentryConsentConfigKey,
+} from './configurationKeys.js';
+import type { ConsentState } from './SentryConsentIntegration.js';
+
+/**
+ * Client options that can be controlled by a consent policy
+ * In addition to the tracked configuration keys this includes the SDK
+ * on/off switch and the filtering callbacks
+ */
+export const CONSENT_POLICY_KEYS = [
+  ...SENTRY_CONSENT_CONFIG_KEYS,
+  'enabled',
+  'beforeSend',
+  'beforeSendTransaction',
+  'beforeBreadcrumb',
+] as const;
+
+export type ConsentPolicyKey = (typeof CONSENT_POLICY_KEYS)[number];
+
+const CALLBACK_POLICY_KEYS: readonly ConsentPolicyKey[] = [
+  'beforeSend',
+  'beforeSendTransaction',
+  'beforeBreadcrumb',
+];
+
+export interface ConsentPolicyRule<P extends string = DefaultConsentPurpose> {
+  /**
+   * Purposes that must all be granted for the user's original value to apply
+   */
+  purposes: P[];
+
+  /**
+   * Value applied while any of the purposes is not granted
+   * Callback options (beforeSend, beforeBreadcrumb, ...) expect a function
+   */
+  deniedValue: unknown;
+}
+
+/**
+ * Declarative mapping of client options to the consent purposes they need
+ */
+export type ConsentPolicy<P extends string = DefaultConsentPurpose> = Partial<
+  Record<ConsentPolicyKey, ConsentPolicyRule<P>>
+>;
+
+const dropAll = (): null => null;
+
+/**
+ * Policy applied when no custom policy is given
+ *
+ * - functional: SDK enabled state, error sampling, beforeSend, session tracking
+ * - analytics: breadcrumbs, stack traces, tracing, profiling, transactions
+ * - preferences: PII and Session Replay sampling
+ */
+export const DEFAULT_CONSENT_POLICY: ConsentPolicy = {
+  enabled: { purposes: ['functional'], deniedValue: false },
+  sampleRate: { purposes: ['functional'], deniedValue: 0.0 },
+  beforeSend: { purposes: ['functional'], deniedValue: dropAll },
+  autoSessionTracking: { purposes: ['functional'], deniedValue: false },
+
+  maxBreadcrumbs: { purposes: ['analytics'], deniedValue: 0 },
+  attachStacktrace: { purposes: ['analytics'], deniedValue: false },
+  tracesSampleRate: { purposes: ['analytics'], deniedValue: 0.0 },
+  profilesSampleRate: { purposes: ['analytics'], deniedValue: 0.0 },
+  beforeBreadcrumb: { purposes: ['analytics'], deniedValue: dropAll },
+  beforeSendTransaction: { purposes: ['analytics'], deniedValue: dropAll },
+
+  sendDefaultPii: { purposes: ['preferences'], deniedValue: false },
+  replaysSessionSampleRate: { purposes: ['preferences'], deniedValue: 0.0 },
+  replaysOnErrorSampleRate: { purposes: ['preferences'], deniedValue: 0.0 },
+};
+
+/**
+ * Combine a custom policy with the default one
+ * Rules in the custom policy replace the default rule for the same key
+ */
+export function resolveConsentPolicy<P extends string = DefaultConsentPurpose>(
+  policy?: ConsentPolicy<P>
+): ConsentPolicy<P | DefaultConsentPurpose> {
+  return { ...DEFAULT_CONSENT_POLICY, ...policy };
+}
+
+/**
+ * Copy a policy with its purposes renamed, e.g. to reuse the default rules
+ * with the purposes of a consent management platform
+ * Purposes without a mapping are kept as they are.
+ *
+ * @example
+ * ```typescript
+ * mapPolicyPurposes(DEFAULT_CONSENT_POLICY, {
+ *   functional: 'security',
+ *   analytics: 'performance',
+ *   preferences: 'personalization',
+ * });
+ * ```
+ */
+export function mapPolicyPurposes<
+  From extends string,
+  M extends Partial<Record<From, string>>,
+>(
+  policy: ConsentPolicy<From>,
+  mapping: M
+): ConsentPolicy<NonNullable<M[keyof M]> | Exclude<From, keyof M>> {
+  const mapped: ConsentPolicy<string> = {};
+  (Object.keys(policy) as ConsentPolicyKey[]).forEach((key) => {
+    const rule = policy[key];
+    if (!rule) return;
+
+    mapped[key] = {
+      ...rule,
+      purposes: [
+        ...new Set(
+          rule.purposes.map(
+            (purpose) => (mapping[purpose] as string | undefined) ?? purpose
+          )
+        ),
+      ],
+    };
+  });
+  return mapped as ConsentPolicy<
+    NonNullable<M[keyof M]> | Exclude<From, keyof M>
+  >;
+}
+
+/**
+ * Check a policy for unknown keys, unknown purposes and invalid denied values
+ *
+ * @param knownPurposes Purposes rules may refer to, the built-in ones by
+ * default. Rules referring to other purposes could never be granted.
+ * @throws Error describing every problem found in the policy
+ */
+export function validateConsentPolicy<P extends string>(
+  policy: ConsentPolicy<P>,
+  knownPurposes: readonly string[] = DEFAULT_CONSENT_PURPOSES
+): void {
+  const problems: string[] = [];
+
+  Object.entries(policy).forEach(([key, rule]) => {
+    if (!(CONSENT_POLICY_KEYS as readonly string[]).includes(key)) {
+      problems.push(`"${key}" is not a consent-controlled option`);
+      return;
+    }
+
+    if (!rule || typeof rule !== 'object') {
+      problems.push(`"${key}" must be a rule object`);
+      return;
+    }
+
+    if (!Array.isArray(rule.purposes) || rule.purposes.length === 0) {
+      problems.push(`"${key}" must list at least one purpose`);
+    } else {
+      rule.purposes
+        .filter((purpose) => !knownPurposes.includes(purpose))
+        .forEach((purpose) => {
+          problems.push(`"${key}" uses untracked purpose "${String(purpose)}"`);
+        });
+    }
+
+    if (!('deniedValue' in rule)) {
+      problems.push(`"${key}" is missing a deniedValue`);
+    } else if (
+      CALLBACK_POLICY_KEYS.includes(key as ConsentPolicyKey) &&
+      rule.deniedValue !== undefined &&
+      typeof rule.deniedValue !== 'function'
+    ) {
+      problems.push(`"${key}" deniedValue must be a function or undefined`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(
+      `[SentryConsentIntegration] Invalid consent policy: ${problems.join('; ')}`
+    );
+  }
+}
+
+/**
+ * Whether every purpose of a rule is granted in the given consent state
+ */
+export function isRuleGranted<P extends string>(
+  rule: ConsentPolicyRule<P>,
+  consentState: ConsentState<P>
+): boolean {
+  return rule.purposes.every((purpose) => consentState[purpose] === true);
+}
+
+/**
+ * Build the client options for a consent state
+ * Granted options get the user's original value (or Sentry's default),
+ * options with a missing purpose get the rule's denied value
+ */
+export function buildPolicyConfig<P extends string>(
+  policy: ConsentPolicy<P>,
+  consentState: ConsentState<P>,
+  originalConfig: Record<string, any>
+): Partial<Record<ConsentPolicyKey, unknown>> {
+  const config: Partial<Record<ConsentPolicyKey, unknown>> = {};
+
+  (Object.keys(policy) as ConsentPolicyKey[]).forEach((key) => {
+    const rule = policy[key];
+    if (!rule) return;
+
+    config[key] = isRuleGranted(rule, consentState)
+      ? getOriginalValue(key, originalConfig)
+      : rule.deniedValue;
+  });
+
+  return config;
+}
+
+function getOriginalValue(
+  key: ConsentPolicyKey,
+  originalConfig: Record<string, any>
+): unknown {
+  if (key === 'enabled') {
+    return originalConfig.enabled ?? true;
+  }
+  if (key in SENTRY_DEFAULT_CONFIG) {
+    return (
+      originalConfig[key] ??
+      SENTRY_DEFAULT_CONFIG[key as SentryConsentConfigKey]
+    );
+  }
+  return originalConfig[key];
+}
@@ -0,0 +1,125 @@
+import type { DefaultConsentPurpose } from './configurationKeys.js';
+import type { ConsentState } from './SentryConsentIntegration.js';
+
+/**
+ * Direction of a consent transition for one purpose
+ * - grant: the purpose became granted
+ * - revoke: the purpose stopped being granted, including the first explicit
+ *   denial of a purpose that was undecided
+ */
+export type ConsentTransitionKind = 'grant' | 'revoke';
+
+export interface ConsentTransition<P extends string = DefaultConsentPurpose> {
+  purpose: P;
+  kind: ConsentTransitionKind;
+  from: boolean | undefined;
+  to: boolean | undefined;
+}
+
+export type ConsentTransitionHandler<P extends string = DefaultConsentPurpose> =
+  (transition: ConsentTransition<P>) => void;
+
+/**
+ * Compute the grant/revoke transitions between two consent states
+ * Revocations come before grants; within each group purposes keep the order
+ * in which they appear in the states.
+ */
+export function computeConsentTransitions<P extends string>(
+  previous: ConsentState<P>,
+  current: ConsentState<P>
+): ConsentTransition<P>[] {
+  const purposes = new Set([
+    ...Object.keys(previous),
+    ...Object.keys(current),
+  ]) as Set<P>;
+  const transitions: ConsentTransition<P>[] = [];
+
+  purposes.forEach((purpose) => {
+    const from = previous[purpose];
+    const to = current[purpose];
+
+    if (to === true && from !== true) {
+      transitions.push({ purpose, kind: 'grant', from, to });
+    } else if (
+      to !== true &&
+      (from === true || (from === undefined && to === false))
+    ) {
+      transitions.push({ purpose, kind: 'revoke', from, to });
+    }
+  });
+
+  return [
+    ...transitions.filter(({ kind }) => kind === 'revoke'),
+    ...transitions.filter(({ kind }) => kind === 'grant'),
+  ];
+}
+
+interface RegisteredHandler<P extends string> {
+  purpose: P | '*';
+  kind: ConsentTransitionKind;
+  handler: ConsentTransitionHandler<P>;
+}
+
+/**
+ * Dispatches per-purpose transition handlers whenever a new consent state is
+ * applied. Handlers for the same transition run in registration order.
+ */
+export class ConsentTransitionEngine<P extends string = DefaultConsentPurpose> {
+  private handlers: RegisteredHandler<P>[] = [];
+
+  constructor(
+    private onHandlerError: (
+      transition: ConsentTransition<P>,
+      error: unknown
+    ) => void = () => {}
+  ) {}
+
+  /**
+   * Register a handler for a purpose ('*' for every purpose)
+   *
+   * @returns A function that removes the handler
+   */
+  public on(
+    purpose: P | '*',
+    kind: ConsentTransitionKind,
+    handler: ConsentTransitionHandler<P>
+  ): () => void {
+    const entry: RegisteredHandler<P> = { purpose, kind, handler };
+    this.handlers.push(entry);
+
+    return () => {
+      this.handlers = this.handlers.filter((candidate) => candidate !== entry);
+    };
+  }
+
+  /**
+   * Compute the transitions from `previous` to `current` and run the
+   * matching handlers
+   *
+   * @returns The transitions that were dispatched
+   */
+  public apply(
+    previous: ConsentState<P>,
+    current: ConsentState<P>
+  ): ConsentTransition<P>[] {
+    const transitions = computeConsentTransitions(previous, current);
+
+    transitions.forEach((transition) => {
+      this.handlers
+        .filter(
+          ({ purpose, kind }) =>
+            kind === transition.kind &&
+            (purpose === '*' || purpose === transition.purpose)
+        )
+        .forEach(({ handler }) => {
+          try {
+            handler(transition);
+          } catch (error) {
+            this.onHandlerError(transition, error);
+          }
+        });
+    });
+
+    return transitions;
+  }
+}
@@ -0,0 +1,205 @@
+import type { Event } from '@sentry/core';
+
+import {
+  DEFAULT_CONSENT_PURPOSES,
+  type DefaultConsentPurpose,
+} from './configurationKeys.js';
+import type { ConsentState } from './SentryConsentIntegration.js';
+
+/**
+ * Kinds of scope data that can be classified
+ */
+export type ScopeDataKind = 'user' | 'tags' | 'contexts' | 'extras';
+
+export const SCOPE_DATA_KINDS: readonly ScopeDataKind[] = [
+  'user',
+  'tags',
+  'contexts',
+  'extras',
+];
+
+/**
+ * Key matcher: a string is an exact key unless it contains `*` (any
+ * characters) or `?` (one character), in which case it is a glob
+ */
+export type DataKeyPattern = string | RegExp;
+
+export interface DataClassificationRule<
+  P extends string = DefaultConsentPurpose,
+> {
+  match: DataKeyPattern;
+  purpose: P;
+}
+
+/**
+ * Rules mapping scope data keys to the consent purpose they need
+ * The first matching rule of a kind wins; keys without a match are never
+ * touched by the integration.
+ */
+export type DataClassification<P extends string = DefaultConsentPurpose> = {
+  [K in ScopeDataKind]?: DataClassificationRule<P>[];
+};
+
+/**
+ * Matches a word as a whole segment of a key, so `source` matches
+ * `utm_source` and `traffic.source` but not `resource_type`
+ */
+function segment(word: string): RegExp {
+  return new RegExp(`(^|[._-])${word}($|[._-])`, 'i');
+}
+
+/**
+ * Built-in classification: the user and tags or contexts typically used for
+ * A/B testing, campaign tracking and behavioral analysis need marketing
+ * consent
+ */
+export const DEFAULT_DATA_CLASSIFICATION: DataClassification = {
+  user: [{ match: '*', purpose: 'marketing' }],
+  tags: [
+    'campaign',
+    'cohort',
+    'segment',
+    'experiment',
+    'variant',
+    'source',
+    'medium',
+    'channel',
+    'funnel',
+    'journey',
+    'user_type',
+    'subscription',
+    'plan',
+    'tier',
+  ].map((word) => ({ match: segment(word), purpose: 'marketing' as const })),
+  contexts: [
+    { match: 'marketing', purpose: 'marketing' },
+    { match: 'campaign', purpose: 'marketing' },
+    { match: 'cohort', purpose: 'marketing' },
+  ],
+  extras: [],
+};
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a key matches an exact, glob or RegExp pattern
+ */
+export function matchesKey(pattern: DataKeyPattern, key: string): boolean {
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0;
+    return pattern.test(key);
+  }
+  if (pattern.includes('*') || pattern.includes('?')) {
+    return globToRegExp(pattern).test(key);
+  }
+  return pattern === key;
+}
+
+/**
+ * Merge custom rules into the default classification
+ * Rules given for a kind replace the default rules of that kind.
+ */
+export function resolveDataClassification<P extends string>(
+  classification: DataClassification<P> = {}
+): DataClassification<P | DefaultConsentPurpose> {
+  return { ...DEFAULT_DATA_CLASSIFICATION, ...classification };
+}
+
+/**
+ * Throw if a classification uses unknown kinds, malformed rules or unknown
+ * purposes
+ */
+export function validateDataClassification(
+  classification: DataClassification<string>,
+  knownPurposes: readonly string[] = DEFAULT_CONSENT_PURPOSES
+): void {
+  const problems: string[] = [];
+
+  Object.entries(classification).forEach(([kind, rules]) => {
+    if (!SCOPE_DATA_KINDS.includes(kind as ScopeDataKind)) {
+      problems.push(`"${kind}" is not a classifiable kind of scope data`);
+      return;
+    }
+
+    if (!Array.isArray(rules)) {
+      problems.push(`"${kind}" must be a list of rules`);
+      return;
+    }
+
+    rules.forEach(({ match, purpose }) => {
+      if (typeof match !== 'string' && !(match instanceof RegExp)) {
+        problems.push(`"${kind}" has a rule without a string or RegExp match`);
+      } else if (!knownPurposes.includes(purpose)) {
+        problems.push(
+          `"${kind}" rule ${String(match)} uses unknown purpose "${purpose}"`
+        );
+      }
+    });
+  });
+
+  if (problems.length > 0) {
+    throw new Error(
+      `[SentryConsentIntegration] Invalid data classification: ${problems.join('; ')}`
+    );
+  }
+}
+
+/**
+ * Purpose a scope data key is classified under, if any
+ */
+export function classifyDataKey<P extends string>(
+  classification: DataClassification<P>,
+  kind: ScopeDataKind,
+  key: string
+): P | undefined {
+  return classification[kind]?.find(({ match }) => matchesKey(match, key))
+    ?.purpose;
+}
+
+// Scope data kinds and the event fields they end up in
+const EVENT_DATA_FIELDS: Record<ScopeDataKind, keyof Event> = {
+  user: 'user',
+  tags: 'tags',
+  contexts: 'contexts',
+  extras: 'extra',
+};
+
+/**
+ * Copy of an event without the user fields, tags, contexts and extras
+ * classified under a purpose that is not granted
+ * Scope data is copied into events when they are captured, so events held
+ * back before a decision still carry it.
+ */
+export function removeDeniedEventData(
+  event: Event,
+  classification: DataClassification<string>,
+  consentState: ConsentState<string>
+): Event {
+  const result: Event = { ...event };
+
+  (Object.keys(EVENT_DATA_FIELDS) as ScopeDataKind[]).forEach((kind) => {
+    const field = EVENT_DATA_FIELDS[kind];
+    const data = result[field] as Record<string, unknown> | undefined;
+    if (!data) return;
+
+    const allowed = Object.entries(data).filter(([key]) => {
+      const purpose = classifyDataKey(classification, kind, key);
+      return purpose === undefined || consentState[purpose] === true;
+    });
+    if (allowed.length === Object.keys(data).length) return;
+
+    (result as Record<string, unknown>)[field] = Object.fromEntries(allowed);
+  });
+
+  return result;
+}
@@ -1,10 +1,20 @@
-// Event logging utility for debugging and monitoring
+import { createLogger, isDebugEnvironment } from './logger.js';
+
+const legacyLogger = createLogger({ level: 'info' });
+
+/**
+ * Event logging utility for debugging and monitoring
+ * Only logs in a debug environment (see isDebugEnvironment())
+ *
+ * @deprecated Use createLogger() or the integration's `logger` option
+ */
 export function logEvent(message: string, data?: any) {
-  // Only log in development/debug mode
-  if (
-    process.env.NODE_ENV === 'development' ||
-    (typeof window !== 'undefined' && (window as any).__SENTRY_DEBUG__)
-  ) {
-    console.log(`[SentryConsentIntegration] ${message}`, data);
-  }
+  if (!isDebugEnvironment()) return;
+
+  legacyLogger.info(
+    message,
+    data === undefined || (typeof data === 'object' && data !== null)
+      ? data
+      : { data }
+  );
 }
@@ -0,0 +1,267 @@
+import type { Event, EventHint, SeverityLevel } from '@sentry/core';
+
+/**
+ * Strategy used when the pre-consent queue is full
+ *
+ * - drop-oldest: evict the oldest queued event to make room
+ * - drop-newest: reject the incoming event
+ * - keep-by-level: evict the least severe event (oldest first among equals),
+ *   so fatal/error events outrank warnings and info messages
+ */
+export type QueueDropPolicy = 'drop-oldest' | 'drop-newest' | 'keep-by-level';
+
+/**
+ * Reason an event was dropped from the pre-consent queue
+ */
+export type QueueDropReason = 'max_events' | 'max_age' | 'max_bytes';
+
+export interface EventQueueOptions {
+  /**
+   * Maximum number of events held while waiting for consent
+   * @default 100
+   */
+  maxEvents?: number;
+
+  /**
+   * Maximum time in milliseconds an event may wait for consent
+   * Older events are discarded instead of being sent
+   * @default undefined (no age limit)
+   */
+  maxAge?: number;
+
+  /**
+   * Approximate budget in bytes for all queued event payloads
+   * @default 1000000 (1 MB)
+   */
+  maxBytes?: number;
+
+  /**
+   * Which event to give up when a limit is reached
+   * @default 'drop-oldest'
+   */
+  dropPolicy?: QueueDropPolicy;
+}
+
+export interface QueuedEvent {
+  event: Event;
+  hint: EventHint;
+  queuedAt: number;
+  size: number;
+}
+
+export interface DroppedEventCounts {
+  total: number;
+  byReason: Record<QueueDropReason, number>;
+  byCategory: Record<'error' | 'transaction', number>;
+}
+
+export const DEFAULT_EVENT_QUEUE_OPTIONS = {
+  maxEvents: 100,
+  maxBytes: 1_000_000,
+  dropPolicy: 'drop-oldest',
+} as const;
+
+const SEVERITY_RANK: Record<SeverityLevel, number> = {
+  fatal: 5,
+  error: 4,
+  warning: 3,
+  log: 2,
+  info: 2,
+  debug: 1,
+};
+
+function getSeverityRank(event: Event): number {
+  if (event.type === 'transaction') {
+    return SEVERITY_RANK.info;
+  }
+  // Events without a level are errors captured via captureException
+  return SEVERITY_RANK[event.level ?? 'error'] ?? SEVERITY_RANK.error;
+}
+
+function estimateEventSize(event: Event): number {
+  try {
+    return JSON.stringify(event).length;
+  } catch {
+    // Circular or otherwise unserializable data; treat as a large event
+    return 10_000;
+  }
+}
+
+function createEmptyCounts(): DroppedEventCounts {
+  return {
+    total: 0,
+    byReason: { max_events: 0, max_age: 0, max_bytes: 0 },
+    byCategory: { error: 0, transaction: 0 },
+  };
+}
+
+/**
+ * Bounded queue holding events captured before consent was determined
+ *
+ * Enforces count, age and byte limits and keeps track of how many events
+ * had to be dropped so this can be reported once consent is granted.
+ */
+export class EventQueue {
+  private readonly options: Required<Omit<EventQueueOptions, 'maxAge'>> &
+    Pick<EventQueueOptions, 'maxAge'>;
+  private entries: QueuedEvent[] = [];
+  private totalBytes = 0;
+  private dropped = createEmptyCounts();
+
+  constructor(options: EventQueueOptions = {}) {
+    this.options = { ...DEFAULT_EVENT_QUEUE_OPTIONS, ...options };
+  }
+
+  public get length(): number {
+    return this.entries.length;
+  }
+
+  public get bytes(): number {
+    return this.totalBytes;
+  }
+
+  /**
+   * Add an event to the queue, evicting according to the drop policy
+   *
+   * @returns false if the incoming event itself was dropped
+   */
+  public push(event: Event, hint: EventHint, now = Date.now()): boolean {
+    this.pruneExpired(now);
+
+    const incoming: QueuedEvent = {
+      event,
+      hint,
+      queuedAt: now,
+      size: estimateEventSize(event),
+    };
+
+    if (incoming.size > this.options.maxBytes) {
+      this.recordDrop(incoming, 'max_bytes');
+      return false;
+    }
+
+    this.entries.push(incoming);
+    this.totalBytes += incoming.size;
+
+    while (this.entries.length > this.options.maxEvents) {
+      if (this.evict('max_events') === incoming) return false;
+    }
+    while (this.totalBytes > this.options.maxBytes) {
+      if (this.evict('max_bytes') === incoming) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Merge previously persisted events into the queue, keeping all events in
+   * the order they were originally captured
+   */
+  public restore(
+    entries: Array<Pick<QueuedEvent, 'event' | 'queuedAt'>>,
+    now = Date.now()
+  ): void {
+    const current = this.drain(now);
+    const currentIds = new Set(current.map((entry) => entry.event.event_id));
+    const restored = entries
+      .filter((entry) => !currentIds.has(entry.event.event_id))
+      .map((entry) => ({ ...entry, hint: {} }));
+
+    [...restored, ...current]
+      .sort((a, b) => a.queuedAt - b.queuedAt)
+      .forEach((entry) => this.push(entry.event, entry.hint, entry.queuedAt));
+    this.pruneExpired(now);
+  }
+
+  /**
+   * Return the queued events without removing them
+   */
+  public snapshot(): QueuedEvent[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Remove and return all events that are still within their max age
+   */
+  public drain(now = Date.now()): QueuedEvent[] {
+    this.pruneExpired(now);
+    const entries = this.entries;
+    this.entries = [];
+    this.totalBytes = 0;
+    return entries;
+  }
+
+  /**
+   * Discard all queued events along with the dropped counters
+   *
+   * @returns the number of queued events that were discarded
+   */
+  public clear(): number {
+    const discarded = this.entries.length;
+    this.entries = [];
+    this.totalBytes = 0;
+    this.dropped = createEmptyCounts();
+    return discarded;
+  }
+
+  /**
+   * Return the dropped counters accumulated so far and reset them
+   */
+  public takeDroppedCounts(): DroppedEventCounts {
+    const counts = this.dropped;
+    this.dropped = createEmptyCounts();
+    return counts;
+  }
+
+  private pruneExpired(now: number): void {
+    const { maxAge } = this.options;
+    if (maxAge === undefined) return;
+
+    this.entries = this.entries.filter((entry) => {
+      if (now - entry.queuedAt <= maxAge) return true;
+      this.totalBytes -= entry.size;
+      this.recordDrop(entry, 'max_age');
+      return false;
+    });
+  }
+
+  private evict(reason: QueueDropReason): QueuedEvent | undefined {
+    const index = this.selectEvictionIndex();
+    const [evicted] = this.entries.splice(index, 1);
+    if (evicted) {
+      this.totalBytes -= evicted.size;
+      this.recordDrop(evicted, reason);
+    }
+    return evicted;
+  }
+
+  private selectEvictionIndex(): number {
+    switch (this.options.dropPolicy) {
+      case 'drop-newest':
+        return this.entries.length - 1;
+      case 'keep-by-level': {
+        let index = 0;
+        let lowestRank = Infinity;
+        this.entries.forEach((entry, i) => {
+          const rank = getSeverityRank(entry.event);
+          if (rank < lowestRank) {
+            lowestRank = rank;
+            index = i;
+          }
+        });
+        return index;
+      }
+      case 'drop-oldest':
+      default:
+        return 0;
+    }
+  }
+
+  private recordDrop(entry: QueuedEvent, reason: QueueDropReason): void {
+    const category =
+      entry.event.type === 'transaction' ? 'transaction' : 'error';
+    this.dropped.total += 1;
+    this.dropped.byReason[reason] += 1;
+    this.dropped.byCategory[category] += 1;
+  }
+}
@@ -2,12 +2,130 @@
 export {
   sentryConsentIntegration,
   SentryConsentIntegrationClass,
+  CONSENT_QUEUED_TAG,
   type Integration,
+  type ConsentIntegration,
+  type ConsentDecision,
   type ConsentState,
+  type ConsentStateGetters,
+  type ConsentStateListener,
+  type ConsentTimeoutContext,
+  type ConsentTimeoutFallback,
+  type ConsentTimeoutStrategy,
   type SentryConsentIntegrationOptions,
-} from './SentryConsentIntegration';
+} from './SentryConsentIntegration.js';
+export { type ScopeSnapshot } from './scopeShadow.js';
 
-export { logEvent } from './eventLogger';
+// Scope data classification
+export {
+  DEFAULT_DATA_CLASSIFICATION,
+  classifyDataKey,
+  type DataClassification,
+  type DataClassificationRule,
+  type DataKeyPattern,
+  type ScopeDataKind,
+} from './dataClassification.js';
+
+// PII scrubbing
+export {
+  createPiiScrubber,
+  DEFAULT_PII_FIELD_PATHS,
+  PII_DETECTORS,
+  type BuiltInPiiDetector,
+  type PiiDetector,
+  type PiiScrubbingOptions,
+} from './piiScrubbing.js';
+
+// URL sanitization
+export {
+  createUrlSanitizer,
+  sanitizeUrl,
+  DEFAULT_TRACKING_PARAMS,
+  FILTERED_QUERY_VALUE,
+  type UrlSanitizationOptions,
+  type UrlSanitizationRules,
+} from './urlSanitization.js';
+
+// Consent-controlled integrations
+export {
+  consentGatedIntegration,
+  DEFAULT_INTEGRATION_TOGGLES,
+  type IntegrationToggle,
+  type IntegrationToggleEntry,
+} from './integrationToggles.js';
+
+// Lifecycle events
+export {
+  type ConsentIntegrationEventMap,
+  type ConsentIntegrationEventName,
+  type ConsentIntegrationEventListener,
+  type ConsentPurposeChange,
+  type ConsentStateDiff,
+} from './consentEvents.js';
+
+// Per-purpose consent transitions
+export {
+  computeConsentTransitions,
+  type ConsentTransition,
+  type ConsentTransitionHandler,
+  type ConsentTransitionKind,
+} from './consentTransitions.js';
+
+// Consent accountability ledger
+export {
+  memoryLedgerStorage,
+  hashConfig,
+  type ConsentLedgerCounts,
+  type ConsentLedgerEntry,
+  type ConsentLedgerOptions,
+  type ConsentLedgerStorage,
+  type ConsentLedgerTrigger,
+} from './consentLedger.js';
+
+// Consent-aware transport
+export {
+  makeConsentAwareTransport,
+  DEFAULT_ENVELOPE_ITEM_PURPOSES,
+  type ConsentAwareTransportOptions,
+  type ConsentStateSource,
+  type EnvelopeItemPurposes,
+} from './transport.js';
+
+// Logging
+export {
+  createLogger,
+  consoleSink,
+  ringBufferSink,
+  isDebugEnvironment,
+  DEFAULT_REDACTED_LOG_KEYS,
+  type Logger,
+  type LoggerOptions,
+  type LogLevel,
+  type LogFields,
+  type LogRecord,
+  type LogSink,
+  type RingBufferSink,
+} from './logger.js';
+export { logEvent } from './eventLogger.js';
+
+// Pre-consent event queue
+export {
+  DEFAULT_EVENT_QUEUE_OPTIONS,
+  type EventQueueOptions,
+  type QueueDropPolicy,
+  type QueueDropReason,
+  type DroppedEventCounts,
+} from './eventQueue.js';
+
+// Persistent storage for the pre-consent queue
+export {
+  sessionStorageQueueStorage,
+  indexedDBQueueStorage,
+  type QueueStorage,
+  type StoredQueuedEvent,
+  type SessionStorageQueueOptions,
+  type IndexedDBQueueOptions,
+} from './queueStorage.js';
 
 // Configuration constants and types
 export {
@@ -15,12 +133,82 @@ export {
   SENTRY_CONFIG_DESCRIPTIONS,
   CONSENT_RESTRICTED_CONFIG_KEYS,
   SENTRY_DEFAULT_CONFIG,
+  DEFAULT_CONSENT_PURPOSES,
   type SentryConsentConfigKey,
-} from './configurationKeys';
+  type DefaultConsentPurpose,
+} from './configurationKeys.js';
+
+// Consent management platform adapters
+export { type ConsentAdapter } from './adapters/shared.js';
+export {
+  tcfConsentAdapter,
+  DEFAULT_TCF_PURPOSE_MAPPING,
+  type TcfConsentAdapterOptions,
+  type TcfPurposeRequirement,
+  type TcfApi,
+  type TCData,
+} from './adapters/tcf.js';
+export {
+  googleConsentModeAdapter,
+  DEFAULT_CONSENT_MODE_MAPPING,
+  type GoogleConsentModeAdapterOptions,
+  type ConsentModeType,
+  type ConsentModeValue,
+} from './adapters/googleConsentMode.js';
+export {
+  zarazConsentAdapter,
+  type ZarazConsentAdapterOptions,
+  type ZarazConsentApi,
+  type ZarazPurposeMatch,
+  type ZarazPurposeRequirement,
+} from './adapters/zaraz.js';
+export {
+  oneTrustConsentAdapter,
+  DEFAULT_ONETRUST_CATEGORY_MAPPING,
+  type OneTrustConsentAdapterOptions,
+  type OneTrustGlobals,
+} from './adapters/oneTrust.js';
+export {
+  cookiebotConsentAdapter,
+  DEFAULT_COOKIEBOT_CATEGORY_MAPPING,
+  type CookiebotConsentAdapterOptions,
+  type CookiebotCategory,
+  type CookiebotGlobal,
+} from './adapters/cookiebot.js';
+export {
+  usercentricsConsentAdapter,
+  DEFAULT_USERCENTRICS_CATEGORY_MAPPING,
+  type UsercentricsConsentAdapterOptions,
+  type UsercentricsEventDetail,
+  type UsercentricsService,
+  type UsercentricsUI,
+} from './adapters/usercentrics.js';
+
+// Consent policy
+export {
+  DEFAULT_CONSENT_POLICY,
+  CONSENT_POLICY_KEYS,
+  validateConsentPolicy,
+  mapPolicyPurposes,
+  type ConsentPolicy,
+  type ConsentPolicyKey,
+  type ConsentPolicyRule,
+} from './consentPolicy.js';
+
+// Sentry SDK version compatibility
+export {
+  SDK_OPTION_ADAPTERS,
+  SUPPORTED_SDK_MAJOR_VERSIONS,
+  detectSdkMajorVersion,
+  getSdkOptionAdapter,
+  type SdkOptionAdapter,
+  type SupportedSdkMajorVersion,
+  type RelatedClientOption,
+} from './sdkCompatibility.js';
 
 // Utility functions
 export {
   buildTrackedConfigObject,
   isTrackedConfigKey,
   getTrackedConfigKeys,
-} from './utils';
+} from './utils.js';
@@ -0,0 +1,311 @@
+import type { Client, Event, EventHint, Integration } from '@sentry/core';
+
+import type { DefaultConsentPurpose } from './configurationKeys.js';
+import type { ConsentState } from './SentryConsentIntegration.js';
+
+/**
+ * How an integration is switched off and on with consent
+ */
+export interface IntegrationToggle<P extends string = DefaultConsentPurpose> {
+  /**
+   * Purpose the integration needs
+   */
+  purpose: P;
+
+  /**
+   * Stop the integration's instrumentation. Returns a function that starts
+   * it again, or nothing if there is nothing to restart.
+   */
+  disable?: (integration: Integration, client: Client) => (() => void) | void;
+
+  /**
+   * Identifies events produced by the integration, which are dropped while it
+   * is disabled. Needed for integrations whose instrumentation cannot be
+   * stopped.
+   */
+  matchEvent?: (event: Event, hint: EventHint) => boolean;
+}
+
+/**
+ * Integration registry entry: a purpose or a full toggle
+ */
+export type IntegrationToggleEntry<P extends string = DefaultConsentPurpose> =
+  P | IntegrationToggle<P>;
+
+interface ReplayLike extends Integration {
+  getReplayId?: () => string | undefined;
+  start?: () => void;
+  stop?: () => Promise<void>;
+}
+
+interface FeedbackLike extends Integration {
+  getWidget?: () => unknown;
+  remove?: () => void;
+  createWidget?: () => unknown;
+}
+
+/**
+ * Whether a capture context is the one CaptureConsole passes along with
+ * console calls. The integration adds its `logger: 'console'` marker and
+ * mechanism in a scope event processor, which only runs after the event
+ * processors of integrations, so the marker is not set yet when events are
+ * checked.
+ */
+function isConsoleCaptureContext(captureContext: unknown): boolean {
+  if (!captureContext || typeof captureContext !== 'object') return false;
+
+  const { level, extra, ...rest } = captureContext as {
+    level?: unknown;
+    extra?: Record<string, unknown>;
+  };
+  return (
+    typeof level === 'string' &&
+    Object.keys(rest).length === 0 &&
+    !!extra &&
+    Object.keys(extra).length === 1 &&
+    Array.isArray(extra.arguments)
+  );
+}
+
+/**
+ * Built-in registry of integrations that collect data needing consent
+ *
+ * Sentry has no API to remove an installed integration. While its purpose is
+ * denied, an integration is only taken out of the client's private
+ * integration index, which hides it from getIntegrationByName(); its
+ * instrumentation and the event processors it registered keep running.
+ * Only `disable` actually stops an integration, and `matchEvent` drops the
+ * events it produces; entries with neither merely hide the integration.
+ */
+export const DEFAULT_INTEGRATION_TOGGLES: Record<string, IntegrationToggle> = {
+  BrowserTracing: {
+    purpose: 'analytics',
+    matchEvent: (event) => event.type === 'transaction',
+  },
+  BrowserProfiling: { purpose: 'analytics' },
+  // Replaces the autoSessionTracking option since SDK v9; sessions are only
+  // sent while the client is enabled
+  BrowserSession: { purpose: 'functional' },
+  CaptureConsole: {
+    purpose: 'analytics',
+    matchEvent: (event, hint) =>
+      event.logger === 'console' ||
+      !!event.exception?.values?.some(
+        ({ mechanism }) => mechanism?.type === 'console'
+      ) ||
+      isConsoleCaptureContext(hint.captureContext),
+  },
+  HttpClient: {
+    purpose: 'analytics',
+    matchEvent: (event) =>
+      !!event.exception?.values?.some(
+        ({ mechanism }) => mechanism?.type === 'http.client'
+      ),
+  },
+  Replay: {
+    purpose: 'preferences',
+    disable: (integration) => {
+      const replay = integration as ReplayLike;
+      if (!replay.getReplayId?.()) return;
+
+      void replay.stop?.();
+      return () => replay.start?.();
+    },
+  },
+  ReplayCanvas: { purpose: 'preferences' },
+  Feedback: {
+    purpose: 'preferences',
+    disable: (integration) => {
+      const feedback = integration as FeedbackLike;
+      if (!feedback.getWidget?.()) return;
+
+      feedback.remove?.();
+      return () => feedback.createWidget?.();
+    },
+  },
+};
+
+/**
+ * Merge custom entries into the default registry
+ * Entries replace the default entry of the same integration name.
+ */
+export function resolveIntegrationToggles<P extends string>(
+  toggles: Record<string, IntegrationToggleEntry<P>> = {}
+): Record<string, IntegrationToggle<P | DefaultConsentPurpose>> {
+  const resolved: Record<
+    string,
+    IntegrationToggle<P | DefaultConsentPurpose>
+  > = { ...DEFAULT_INTEGRATION_TOGGLES };
+  Object.entries(toggles).forEach(([name, entry]) => {
+    resolved[name] = typeof entry === 'string' ? { purpose: entry } : entry;
+  });
+  return resolved;
+}
+
+const CONSENT_GATE = '__consentGate';
+
+interface ConsentGate {
+  enable(client: Client): void;
+  disable(): void;
+}
+
+/**
+ * Wrap an integration without teardown so that its instrumentation is only
+ * installed once its purpose (see the integration registry) is granted, and
+ * its event hooks do nothing while the purpose is denied.
+ * Instrumentation cannot be removed again after a revocation; events the
+ * registry identifies as coming from the integration are dropped instead.
+ *
+ * @example
+ * ```typescript
+ * Sentry.init({
+ *   integrations: [consentGatedIntegration(captureConsoleIntegration())],
+ * });
+ * ```
+ */
+export function consentGatedIntegration(integration: Integration): Integration {
+  let isSetUp = false;
+  let isEnabled = false;
+
+  const gate: ConsentGate = {
+    enable(client) {
+      isEnabled = true;
+      if (isSetUp) return;
+
+      isSetUp = true;
+      integration.setupOnce?.();
+      integration.setup?.(client);
+      integration.afterAllSetup?.(client);
+    },
+    disable() {
+      isEnabled = false;
+    },
+  };
+
+  return {
+    name: integration.name,
+    [CONSENT_GATE]: gate,
+    preprocessEvent(event, hint, client) {
+      if (isEnabled) integration.preprocessEvent?.(event, hint, client);
+    },
+    processEvent(event, hint, client) {
+      return isEnabled && integration.processEvent
+        ? integration.processEvent(event, hint, client)
+        : event;
+    },
+  } as Integration;
+}
+
+function getConsentGate(integration: Integration): ConsentGate | undefined {
+  return (integration as Integration & { [CONSENT_GATE]?: ConsentGate })[
+    CONSENT_GATE
+  ];
+}
+
+function getIntegrationIndex(client: Client): Record<string, Integration> {
+  // The client keeps its installed integrations in a private index, which
+  // backs getIntegrationByName()
+  return (
+    (client as unknown as { _integrations?: Record<string, Integration> })
+      ._integrations ?? {}
+  );
+}
+
+/**
+ * Set up the gated integrations of a client without waiting for consent,
+ * for setups that leave integrations untouched
+ */
+export function enableConsentGates(client: Client): void {
+  Object.values(getIntegrationIndex(client)).forEach((integration) =>
+    getConsentGate(integration)?.enable(client)
+  );
+}
+
+interface DisabledIntegration {
+  integration: Integration;
+  restart: (() => void) | undefined;
+}
+
+/**
+ * Disables and enables the integrations of a client according to consent
+ * Disabled integrations are removed from the client's integration list, so
+ * getIntegrationByName() returns undefined for them. See
+ * DEFAULT_INTEGRATION_TOGGLES for what this does and does not stop.
+ */
+export class IntegrationToggler {
+  private disabled = new Map<string, DisabledIntegration>();
+
+  constructor(
+    private toggles: Record<string, IntegrationToggle<string>>,
+    private onToggle: (
+      name: string,
+      purpose: string,
+      enabled: boolean
+    ) => void = () => {}
+  ) {}
+
+  public apply(client: Client, consentState: ConsentState<string>): void {
+    const index = getIntegrationIndex(client);
+
+    Object.entries(this.toggles).forEach(([name, toggle]) => {
+      const isGranted = consentState[toggle.purpose] === true;
+      const disabled = this.disabled.get(name);
+
+      if (disabled && isGranted) {
+        this.disabled.delete(name);
+        index[name] = disabled.integration;
+        getConsentGate(disabled.integration)?.enable(client);
+        disabled.restart?.();
+        this.onToggle(name, toggle.purpose, true);
+        return;
+      }
+
+      const integration = index[name];
+      if (!integration || disabled) return;
+
+      if (isGranted) {
+        // Gated integrations are set up on the first grant
+        getConsentGate(integration)?.enable(client);
+        return;
+      }
+
+      getConsentGate(integration)?.disable();
+      this.disabled.set(name, {
+        integration,
+        restart: toggle.disable?.(integration, client) ?? undefined,
+      });
+      delete index[name];
+      this.onToggle(name, toggle.purpose, false);
+    });
+
+    // Gated integrations missing from the registry do not need consent
+    Object.entries(index).forEach(([name, integration]) => {
+      if (!this.toggles[name]) getConsentGate(integration)?.enable(client);
+    });
+  }
+
+  /**
+   * Name of the disabled integration that produced the event, if any
+   */
+  public getBlockingIntegration(
+    event: Event,
+    hint: EventHint
+  ): string | undefined {
+    return [...this.disabled.keys()].find((name) =>
+      this.toggles[name]?.matchEvent?.(event, hint)
+    );
+  }
+
+  /**
+   * Put every disabled integration back into the client's integration list
+   * and restart what its toggle stopped
+   */
+  public restoreAll(client: Client): void {
+    const index = getIntegrationIndex(client);
+    this.disabled.forEach(({ integration, restart }, name) => {
+      index[name] = integration;
+      restart?.();
+    });
+    this.disabled.clear();
+  }
+}
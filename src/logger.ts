@@ -0,0 +1,219 @@
+/**
+ * Log levels in increasing order of severity
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogRecord {
+  timestamp: number;
+  level: LogLevel;
+  message: string;
+  fields?: LogFields;
+}
+
+/**
+ * Receives every record at or above the logger's level
+ */
+export type LogSink = (record: LogRecord) => void;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+export interface LoggerOptions {
+  /**
+   * Minimum level passed to the sinks
+   * @default 'debug' with the integration's `debug` option or in a debug
+   * environment, 'silent' otherwise
+   */
+  level?: LogLevel | 'silent';
+
+  /**
+   * Where records are written
+   * @default [consoleSink()]
+   */
+  sinks?: LogSink[];
+
+  /**
+   * Field names whose values are replaced with '[redacted]' at any depth,
+   * so event payloads and user data stay out of log output. Pass an empty
+   * array to log fields as they are.
+   * @default DEFAULT_REDACTED_LOG_KEYS
+   */
+  redactKeys?: string[];
+
+  /**
+   * Custom redaction applied after `redactKeys`
+   */
+  redact?: (fields: LogFields) => LogFields;
+}
+
+/**
+ * Fields that may carry event payloads or personal data
+ */
+export const DEFAULT_REDACTED_LOG_KEYS = [
+  'event',
+  'user',
+  'request',
+  'extra',
+  'contexts',
+  'breadcrumbs',
+  'initialScope',
+];
+
+const LOG_LEVEL_SEVERITY: Record<LogLevel | 'silent', number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+const LOG_PREFIX = '[SentryConsentIntegration]';
+const REDACTED = '[redacted]';
+const MAX_REDACTION_DEPTH = 5;
+
+/**
+ * Whether debug logging was requested through the environment, either with
+ * `NODE_ENV=development` (usually replaced by bundlers) or the
+ * `__SENTRY_DEBUG__` global. Safe to call in unbundled browser ESM where
+ * `process` does not exist.
+ */
+export function isDebugEnvironment(): boolean {
+  if ((globalThis as { __SENTRY_DEBUG__?: unknown }).__SENTRY_DEBUG__) {
+    return true;
+  }
+
+  try {
+    return process.env.NODE_ENV === 'development';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sink writing to the matching console method
+ */
+export function consoleSink(): LogSink {
+  return ({ level, message, fields }) => {
+    const args = fields ? [fields] : [];
+    if (level === 'debug') {
+      console.log(`${LOG_PREFIX} ${message}`, ...args);
+    } else {
+      console[level](`${LOG_PREFIX} ${message}`, ...args);
+    }
+  };
+}
+
+export interface RingBufferSink extends LogSink {
+  /**
+   * Records currently held, oldest first
+   */
+  getRecords(): LogRecord[];
+  clear(): void;
+
+  /**
+   * Called with the current records whenever they change
+   *
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: (records: LogRecord[]) => void): () => void;
+}
+
+/**
+ * Sink keeping the latest records in memory, e.g. for an in-app log viewer
+ */
+export function ringBufferSink(
+  options: { capacity?: number } = {}
+): RingBufferSink {
+  const capacity = options.capacity ?? 200;
+  let records: LogRecord[] = [];
+  const listeners = new Set<(records: LogRecord[]) => void>();
+
+  const notify = () => listeners.forEach((listener) => listener([...records]));
+
+  const sink: LogSink = (record) => {
+    records = [...records, record].slice(-capacity);
+    notify();
+  };
+
+  return Object.assign(sink, {
+    getRecords: () => [...records],
+    clear: () => {
+      records = [];
+      notify();
+    },
+    subscribe: (listener: (records: LogRecord[]) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  });
+}
+
+function redactValue(
+  value: unknown,
+  redactKeys: Set<string>,
+  depth: number
+): unknown {
+  if (typeof value !== 'object' || value === null) return value;
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  if (depth >= MAX_REDACTION_DEPTH) return '[truncated]';
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, redactKeys, depth + 1));
+  }
+
+  const result: LogFields = {};
+  Object.entries(value).forEach(([key, nested]) => {
+    result[key] = redactKeys.has(key)
+      ? REDACTED
+      : redactValue(nested, redactKeys, depth + 1);
+  });
+  return result;
+}
+
+/**
+ * Create a logger writing structured records to the given sinks
+ */
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const threshold = LOG_LEVEL_SEVERITY[options.level ?? 'debug'];
+  const sinks = options.sinks ?? [consoleSink()];
+  const redactKeys = new Set(options.redactKeys ?? DEFAULT_REDACTED_LOG_KEYS);
+
+  const write = (level: LogLevel, message: string, fields?: LogFields) => {
+    if (LOG_LEVEL_SEVERITY[level] < threshold) return;
+
+    let safeFields = fields
+      ? (redactValue(fields, redactKeys, 0) as LogFields)
+      : undefined;
+    if (safeFields && options.redact) {
+      safeFields = options.redact(safeFields);
+    }
+
+    const record: LogRecord = { timestamp: Date.now(), level, message };
+    if (safeFields) record.fields = safeFields;
+
+    sinks.forEach((sink) => {
+      try {
+        sink(record);
+      } catch {
+        // A failing sink must not break consent handling
+      }
+    });
+  };
+
+  return {
+    debug: (message, fields) => write('debug', message, fields),
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields),
+  };
+}
@@ -0,0 +1,34 @@
+// Server-side integration
+export {
+  serverConsentIntegration,
+  type ServerConsentIntegration,
+  type ServerConsentIntegrationOptions,
+} from './serverConsentIntegration.js';
+
+// Per-request consent
+export {
+  REQUEST_CONSENT_METADATA_KEY,
+  setRequestConsent,
+  getRequestConsent,
+  parseConsentValue,
+  getRequestCookie,
+  getRequestHeader,
+  type ConsentRequest,
+  type HeadersLike,
+} from './requestConsent.js';
+
+// Shared configuration
+export {
+  DEFAULT_CONSENT_PURPOSES,
+  type DefaultConsentPurpose,
+} from '../configurationKeys.js';
+export {
+  DEFAULT_CONSENT_POLICY,
+  type ConsentPolicy,
+  type ConsentPolicyRule,
+} from '../consentPolicy.js';
+export {
+  DEFAULT_DATA_CLASSIFICATION,
+  type DataClassification,
+} from '../dataClassification.js';
+export type { ConsentState } from '../SentryConsentIntegration.js';
@@ -0,0 +1,144 @@
+import { getIsolationScope, type Scope } from '@sentry/core';
+
+import type { DefaultConsentPurpose } from '../configurationKeys.js';
+import type { ConsentState } from '../SentryConsentIntegration.js';
+
+/**
+ * Key of the consent state in the isolation scope's SDK processing metadata
+ */
+export const REQUEST_CONSENT_METADATA_KEY = 'consentState';
+
+/**
+ * Fetch API headers, as passed to Next.js route handlers and Remix loaders
+ */
+export interface HeadersLike {
+  get(name: string): string | null;
+}
+
+/**
+ * The parts of an incoming request consent is read from
+ * Matches Node's IncomingMessage, Express requests, Fetch API requests and
+ * the request data the Sentry SDK stores on the isolation scope.
+ */
+export interface ConsentRequest {
+  headers?: Record<string, string | string[] | undefined> | HeadersLike;
+  cookies?: Record<string, string | undefined>;
+  url?: string;
+}
+
+/**
+ * Read a request header by its case-insensitive name
+ */
+export function getRequestHeader(
+  request: ConsentRequest,
+  name: string
+): string | undefined {
+  const { headers } = request;
+  if (!headers) return undefined;
+
+  if (typeof headers.get === 'function') {
+    return (headers as HeadersLike).get(name) ?? undefined;
+  }
+
+  const value = (headers as Record<string, string | string[] | undefined>)[
+    name.toLowerCase()
+  ];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Read a cookie from parsed request cookies or the Cookie header
+ */
+export function getRequestCookie(
+  request: ConsentRequest,
+  name: string
+): string | undefined {
+  const parsed = request.cookies?.[name];
+  if (parsed !== undefined) return parsed;
+
+  const header = getRequestHeader(request, 'cookie');
+  if (!header) return undefined;
+
+  for (const pair of header.split(';')) {
+    const separatorIndex = pair.indexOf('=');
+    if (separatorIndex === -1) continue;
+    if (pair.slice(0, separatorIndex).trim() === name) {
+      return pair.slice(separatorIndex + 1).trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse a consent cookie or header value
+ * Accepts a JSON object of purposes (`{"analytics":true}`) or a list of the
+ * granted purposes separated by commas or spaces (`functional,analytics`),
+ * optionally URL-encoded. Tracked purposes missing from the value are denied.
+ *
+ * @returns undefined if the value cannot be parsed
+ */
+export function parseConsentValue<P extends string = DefaultConsentPurpose>(
+  value: string,
+  purposes: readonly P[]
+): ConsentState<P> | undefined {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(value).trim();
+  } catch {
+    return undefined;
+  }
+
+  const consentState = {} as ConsentState<P>;
+  purposes.forEach((purpose) => {
+    consentState[purpose] = false;
+  });
+
+  if (decoded.startsWith('{')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(decoded);
+    } catch {
+      return undefined;
+    }
+    if (typeof parsed !== 'object' || parsed === null) return undefined;
+
+    purposes.forEach((purpose) => {
+      consentState[purpose] =
+        (parsed as Record<string, unknown>)[purpose] === true;
+    });
+    return consentState;
+  }
+
+  decoded
+    .split(/[\s,]+/)
+    .filter((purpose): purpose is P => purposes.includes(purpose as P))
+    .forEach((purpose) => {
+      consentState[purpose] = true;
+    });
+  return consentState;
+}
+
+/**
+ * Store the consent of the current request on its isolation scope
+ * Events and transactions of the request are then processed with this
+ * consent state, e.g. after reading it from a session store in middleware.
+ */
+export function setRequestConsent<P extends string = DefaultConsentPurpose>(
+  consentState: ConsentState<P>,
+  scope: Scope = getIsolationScope()
+): void {
+  scope.setSDKProcessingMetadata({
+    [REQUEST_CONSENT_METADATA_KEY]: { ...consentState },
+  });
+}
+
+/**
+ * Consent stored on an isolation scope with setRequestConsent()
+ */
+export function getRequestConsent<P extends string = DefaultConsentPurpose>(
+  scope: Scope = getIsolationScope()
+): ConsentState<P> | undefined {
+  return scope.getScopeData().sdkProcessingMetadata[
+    REQUEST_CONSENT_METADATA_KEY
+  ] as ConsentState<P> | undefined;
+}
@@ -0,0 +1,477 @@
+import { defineIntegration, getIsolationScope } from '@sentry/core';
+import type {
+  Breadcrumb,
+  Event,
+  EventHint,
+  Integration,
+  IntegrationFn,
+  Scope,
+} from '@sentry/core';
+
+import {
+  DEFAULT_CONSENT_PURPOSES,
+  type DefaultConsentPurpose,
+} from '../configurationKeys.js';
+import {
+  isRuleGranted,
+  resolveConsentPolicy,
+  validateConsentPolicy,
+  type ConsentPolicy,
+  type ConsentPolicyKey,
+  type ConsentPolicyRule,
+} from '../consentPolicy.js';
+import {
+  removeDeniedEventData,
+  resolveDataClassification,
+  validateDataClassification,
+  type DataClassification,
+} from '../dataClassification.js';
+import {
+  createLogger,
+  isDebugEnvironment,
+  type Logger,
+  type LoggerOptions,
+} from '../logger.js';
+import {
+  createPiiScrubber,
+  type PiiScrubbingOptions,
+} from '../piiScrubbing.js';
+import type { ConsentState } from '../SentryConsentIntegration.js';
+import {
+  createUrlSanitizer,
+  type UrlSanitizationOptions,
+} from '../urlSanitization.js';
+import { isThenable, validateFeaturePurposes } from '../utils.js';
+import {
+  REQUEST_CONSENT_METADATA_KEY,
+  getRequestCookie,
+  getRequestHeader,
+  parseConsentValue,
+  setRequestConsent,
+  type ConsentRequest,
+} from './requestConsent.js';
+
+export interface ServerConsentIntegrationOptions<
+  P extends string = DefaultConsentPurpose,
+> {
+  /**
+   * Purposes read from the consent cookie or header
+   * @default DEFAULT_CONSENT_PURPOSES
+   */
+  purposes?: P[];
+
+  /**
+   * Name of the cookie holding the consent of the request's user
+   */
+  cookie?: string;
+
+  /**
+   * Name of the request header holding the consent, e.g. set by an edge
+   * function or the frontend
+   */
+  header?: string;
+
+  /**
+   * Parse the cookie or header value
+   * @default parseConsentValue (JSON object or list of granted purposes)
+   */
+  parseConsent?: (value: string) => ConsentState<P> | undefined;
+
+  /**
+   * Resolve the consent of a request, e.g. from a session store
+   * Tried before the cookie and header; return undefined to fall back to
+   * them.
+   */
+  resolveConsent?: (
+    request: ConsentRequest
+  ) => ConsentState<P> | undefined | PromiseLike<ConsentState<P> | undefined>;
+
+  /**
+   * Consent applied to requests whose consent cannot be resolved
+   * @default {} (all purposes denied)
+   */
+  fallbackConsentState?: ConsentState<P>;
+
+  /**
+   * Client options controlled by each purpose, applied to the events of a
+   * request instead of the client options
+   * @default DEFAULT_CONSENT_POLICY
+   */
+  policy?: ConsentPolicy<P | DefaultConsentPurpose>;
+
+  /**
+   * Which user fields, tags, contexts and extras need which purpose
+   * @default DEFAULT_DATA_CLASSIFICATION
+   */
+  dataClassification?: DataClassification<P | DefaultConsentPurpose>;
+
+  /**
+   * Scrub personal data from events of requests without the purpose
+   * (preferences by default). Set to false to disable.
+   * @default {}
+   */
+  piiScrubbing?: PiiScrubbingOptions<P | DefaultConsentPurpose> | false;
+
+  /**
+   * Remove tracking parameters, query values and route IDs from URLs of
+   * requests without the purposes. Set to false to disable.
+   * @default {}
+   */
+  urlSanitization?: UrlSanitizationOptions<P | DefaultConsentPurpose> | false;
+
+  /**
+   * Whether to log debug information to console
+   * @default false
+   */
+  debug?: boolean;
+
+  /**
+   * Level, sinks and redaction of the integration's log output
+   */
+  logger?: LoggerOptions;
+}
+
+/**
+ * Integration object returned by serverConsentIntegration()
+ */
+export interface ServerConsentIntegration<
+  P extends string = DefaultConsentPurpose,
+> extends Integration {
+  name: string;
+  processEvent(
+    event: Event,
+    hint: EventHint
+  ): Event | null | PromiseLike<Event | null>;
+  resolveRequestConsent(
+    request: ConsentRequest
+  ): ConsentState<P> | PromiseLike<ConsentState<P>>;
+}
+
+type EventCallback = (
+  event: Event,
+  hint: EventHint
+) => Event | null | PromiseLike<Event | null>;
+
+type BreadcrumbCallback = (breadcrumb: Breadcrumb) => Breadcrumb | null;
+
+/**
+ * Request headers the SDK only attaches with `sendDefaultPii`
+ */
+const DEFAULT_PII_HEADERS = [
+  'authorization',
+  'cookie',
+  'set-cookie',
+  'x-forwarded-for',
+  'x-real-ip',
+];
+
+function getMetadataRequest(
+  metadata: Record<string, unknown>
+): ConsentRequest | undefined {
+  return (metadata.normalizedRequest ?? metadata.request) as
+    ConsentRequest | undefined;
+}
+
+function getRequestMetadata(event: Event): {
+  consentState: ConsentState<string> | undefined;
+  request: ConsentRequest | undefined;
+  scope: Scope | undefined;
+} {
+  const metadata = event.sdkProcessingMetadata ?? {};
+  // Transactions carry the isolation scope their root span was started in
+  const spanIsolationScope = metadata.capturedSpanIsolationScope as
+    Scope | undefined;
+  const spanMetadata =
+    spanIsolationScope?.getScopeData().sdkProcessingMetadata ?? {};
+  const request =
+    getMetadataRequest(metadata) ?? getMetadataRequest(spanMetadata);
+
+  // Only the isolation scope the request was recorded on belongs to it
+  const scope = [spanIsolationScope, getIsolationScope()].find(
+    (candidate) =>
+      !!request &&
+      !!candidate &&
+      getMetadataRequest(candidate.getScopeData().sdkProcessingMetadata) ===
+        request
+  );
+
+  return {
+    consentState: (metadata[REQUEST_CONSENT_METADATA_KEY] ??
+      spanMetadata[REQUEST_CONSENT_METADATA_KEY]) as
+      ConsentState<string> | undefined,
+    request,
+    scope,
+  };
+}
+
+class ServerConsentIntegrationClass<P extends string = DefaultConsentPurpose> {
+  public static id = 'ServerConsentIntegration';
+  public name = ServerConsentIntegrationClass.id;
+
+  private purposes: P[];
+  private policy: ConsentPolicy<string>;
+  private dataClassification: DataClassification<string>;
+  private scrubPii: ((event: Event) => Event) | null = null;
+  private piiScrubbingPurpose = 'preferences';
+  private sanitizeUrls:
+    ((event: Event, consentState: ConsentState<string>) => Event) | null = null;
+  private logger: Logger;
+
+  constructor(private options: ServerConsentIntegrationOptions<P>) {
+    this.logger = createLogger({
+      level: options.debug || isDebugEnvironment() ? 'debug' : 'silent',
+      ...options.logger,
+    });
+    this.purposes =
+      options.purposes ??
+      (DEFAULT_CONSENT_PURPOSES as readonly string[] as P[]);
+
+    const knownPurposes = [...DEFAULT_CONSENT_PURPOSES, ...this.purposes];
+    this.policy = resolveConsentPolicy<string>(options.policy);
+    validateConsentPolicy(this.policy, knownPurposes);
+    this.dataClassification = resolveDataClassification<string>(
+      options.dataClassification
+    );
+    validateDataClassification(this.dataClassification, knownPurposes);
+
+    const { piiScrubbing = {}, urlSanitization = {} } = options;
+    if (piiScrubbing !== false) {
+      const { purpose = 'preferences', ...scrubberOptions } = piiScrubbing;
+      validateFeaturePurposes('PII scrubbing', [purpose], knownPurposes);
+      this.piiScrubbingPurpose = purpose;
+      this.scrubPii = createPiiScrubber(scrubberOptions);
+    }
+    if (urlSanitization !== false) {
+      const { purpose = 'preferences', trackingPurpose = 'marketing' } =
+        urlSanitization;
+      validateFeaturePurposes(
+        'URL sanitization',
+        [purpose, trackingPurpose],
+        knownPurposes
+      );
+      this.sanitizeUrls = createUrlSanitizer(urlSanitization);
+    }
+  }
+
+  /**
+   * Consent of a request from the resolver, cookie or header, or the
+   * fallback consent state
+   */
+  public resolveRequestConsent(
+    request: ConsentRequest
+  ): ConsentState<P> | PromiseLike<ConsentState<P>> {
+    const resolved = this.options.resolveConsent?.(request);
+    if (isThenable(resolved)) {
+      return resolved.then(
+        (consentState) => consentState ?? this.readRequestConsent(request),
+        (error: unknown) => {
+          this.logger.warn('Consent resolver failed', { error });
+          return this.readRequestConsent(request);
+        }
+      );
+    }
+    return resolved ?? this.readRequestConsent(request);
+  }
+
+  private readRequestConsent(request: ConsentRequest): ConsentState<P> {
+    const { cookie, header, parseConsent } = this.options;
+    const value =
+      (cookie ? getRequestCookie(request, cookie) : undefined) ??
+      (header ? getRequestHeader(request, header) : undefined);
+
+    const consentState =
+      value === undefined
+        ? undefined
+        : parseConsent
+          ? parseConsent(value)
+          : parseConsentValue(value, this.purposes);
+    if (value !== undefined && !consentState) {
+      this.logger.debug('Could not parse request consent');
+    }
+    return consentState ?? { ...this.options.fallbackConsentState };
+  }
+
+  public processEvent(
+    event: Event,
+    hint: EventHint
+  ): Event | null | PromiseLike<Event | null> {
+    const { consentState, request, scope } = getRequestMetadata(event);
+    if (consentState) return this.applyConsent(event, hint, consentState);
+
+    // Events outside of requests (startup, scheduled jobs) are not tied to a
+    // user whose consent applies
+    if (!request) return event;
+
+    // Stored on the request's isolation scope, so later events of the same
+    // request do not resolve it again
+    const store = (requestConsent: ConsentState<P>): ConsentState<P> => {
+      if (scope) setRequestConsent(requestConsent, scope);
+      return requestConsent;
+    };
+    const resolved = this.resolveRequestConsent(request);
+    return isThenable(resolved)
+      ? resolved.then((requestConsent) =>
+          this.applyConsent(event, hint, store(requestConsent))
+        )
+      : this.applyConsent(event, hint, store(resolved));
+  }
+
+  private getDeniedRule(
+    key: ConsentPolicyKey,
+    consentState: ConsentState<string>
+  ): ConsentPolicyRule<string> | undefined {
+    const rule = this.policy[key];
+    return rule && !isRuleGranted(rule, consentState) ? rule : undefined;
+  }
+
+  /**
+   * Apply the policy's denied values to a single event, as the client would
+   * with the corresponding options
+   */
+  private applyConsent(
+    event: Event,
+    hint: EventHint,
+    consentState: ConsentState<string>
+  ): Event | null | PromiseLike<Event | null> {
+    const isTransaction = event.type === 'transaction';
+    const isError = event.type === undefined;
+
+    if (this.getDeniedRule('enabled', consentState)?.deniedValue === false) {
+      this.logger.debug('Event dropped - SDK disabled for request', {
+        eventType: event.type,
+      });
+      return null;
+    }
+
+    const sampleRule =
+      isTransaction || isError
+        ? this.getDeniedRule(
+            isTransaction ? 'tracesSampleRate' : 'sampleRate',
+            consentState
+          )
+        : undefined;
+    if (
+      typeof sampleRule?.deniedValue === 'number' &&
+      !(Math.random() < sampleRule.deniedValue)
+    ) {
+      this.logger.debug('Event dropped - sampled out for request', {
+        eventType: event.type,
+      });
+      return null;
+    }
+
+    let result = this.removeDeniedData(event, consentState);
+    if (this.scrubPii && consentState[this.piiScrubbingPurpose] !== true) {
+      result = this.scrubPii(result);
+    }
+    if (this.sanitizeUrls) {
+      result = this.sanitizeUrls(result, consentState);
+    }
+
+    const callbackRule =
+      isTransaction || isError
+        ? this.getDeniedRule(
+            isTransaction ? 'beforeSendTransaction' : 'beforeSend',
+            consentState
+          )
+        : undefined;
+    if (typeof callbackRule?.deniedValue === 'function') {
+      return (callbackRule.deniedValue as EventCallback)(result, hint);
+    }
+    return result;
+  }
+
+  private removeDeniedData(
+    event: Event,
+    consentState: ConsentState<string>
+  ): Event {
+    const result: Event = { ...event };
+
+    if (result.breadcrumbs) {
+      const filter = this.getDeniedRule(
+        'beforeBreadcrumb',
+        consentState
+      )?.deniedValue;
+      const limit = this.getDeniedRule(
+        'maxBreadcrumbs',
+        consentState
+      )?.deniedValue;
+      let breadcrumbs = result.breadcrumbs;
+      if (typeof filter === 'function') {
+        breadcrumbs = breadcrumbs.flatMap(
+          (breadcrumb) => (filter as BreadcrumbCallback)(breadcrumb) ?? []
+        );
+      }
+      if (typeof limit === 'number') {
+        breadcrumbs = limit > 0 ? breadcrumbs.slice(-limit) : [];
+      }
+      result.breadcrumbs = breadcrumbs;
+    }
+
+    // Data the SDK only collects with sendDefaultPii
+    if (
+      this.getDeniedRule('sendDefaultPii', consentState)?.deniedValue === false
+    ) {
+      if (result.user?.ip_address !== undefined) {
+        const { ip_address: _ipAddress, ...user } = result.user;
+        result.user = user;
+      }
+      if (result.request) {
+        const { cookies: _cookies, data: _data, ...request } = result.request;
+        if (request.headers) {
+          request.headers = Object.fromEntries(
+            Object.entries(request.headers).filter(
+              ([name]) => !DEFAULT_PII_HEADERS.includes(name.toLowerCase())
+            )
+          );
+        }
+        result.request = request;
+      }
+    }
+
+    // Scope data classified under a denied purpose
+    return removeDeniedEventData(result, this.dataClassification, consentState);
+  }
+}
+
+// Typed separately because defineIntegration() erases the integration type
+const _serverConsentIntegration = (<P extends string = DefaultConsentPurpose>(
+  options: ServerConsentIntegrationOptions<P> = {}
+): ServerConsentIntegration<P> => {
+  const integration = new ServerConsentIntegrationClass<P>(options);
+
+  return {
+    name: integration.name,
+    processEvent: (event: Event, hint: EventHint) =>
+      integration.processEvent(event, hint),
+    resolveRequestConsent: (request: ConsentRequest) =>
+      integration.resolveRequestConsent(request),
+  };
+}) satisfies IntegrationFn;
+
+/**
+ * Sentry integration for Node.js and server-side rendering that applies the
+ * consent of each request's user to the events and transactions of that
+ * request
+ *
+ * Consent is read from the request's isolation scope, where
+ * setRequestConsent() stores it, or resolved once from the request the SDK
+ * records there (resolver, cookie or header) and then stored the same way. Client options are never
+ * changed, so concurrent requests with different consent do not affect
+ * each other. Events outside of requests are sent unchanged.
+ *
+ * @example
+ * ```typescript
+ * import * as Sentry from '@sentry/node';
+ * import { serverConsentIntegration } from '@imviidx/sentry-consent-integration/node';
+ *
+ * Sentry.init({
+ *   dsn: 'your-dsn',
+ *   tracesSampleRate: 0.1,
+ *   integrations: [serverConsentIntegration({ cookie: 'sentry_consent' })],
+ * });
+ * ```
+ */
+export const serverConsentIntegration = defineIntegration(
+  _serverConsentIntegration
+) as typeof _serverConsentIntegration;
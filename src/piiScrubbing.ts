@@ -0,0 +1,262 @@
+import type { Event } from '@sentry/core';
+
+import type { DefaultConsentPurpose } from './configurationKeys.js';
+
+/**
+ * Finds one kind of personal data inside strings
+ */
+export interface PiiDetector {
+  /**
+   * Used in replacement tokens, e.g. `[email]`
+   */
+  name: string;
+
+  /**
+   * Global pattern matching candidates
+   */
+  pattern: RegExp;
+
+  /**
+   * Rejects false positives, e.g. card numbers failing the Luhn check
+   */
+  validate?: (match: string) => boolean;
+}
+
+export type BuiltInPiiDetector = 'jwt' | 'email' | 'iban' | 'card' | 'phone';
+
+export interface PiiScrubbingOptions<P extends string = DefaultConsentPurpose> {
+  /**
+   * Purpose whose consent makes scrubbing unnecessary
+   * @default 'preferences'
+   */
+  purpose?: P;
+
+  /**
+   * Dotted paths into the event whose values are replaced entirely
+   * Segments match case-insensitively and `*` matches any key or array index.
+   * @default DEFAULT_PII_FIELD_PATHS
+   */
+  fieldPaths?: string[];
+
+  /**
+   * Detectors run over the message, exception values, extras, contexts and
+   * breadcrumbs, in order
+   * @default ['jwt', 'email', 'iban', 'card', 'phone']
+   */
+  detectors?: Array<BuiltInPiiDetector | PiiDetector>;
+
+  /**
+   * Builds the replacement for a detected or field-path value. The default
+   * produces tokens such as `[email]` that do not depend on the value. For
+   * tokens that correlate equal values, use a keyed hash whose secret does
+   * not ship to the browser; plain hashes of phone numbers, card numbers or
+   * emails can be reversed by hashing candidates.
+   */
+  replace?: (kind: string, value: string) => string;
+}
+
+/**
+ * Event fields that hold personal data regardless of their content
+ */
+export const DEFAULT_PII_FIELD_PATHS = [
+  'user.email',
+  'user.username',
+  'user.ip_address',
+  'request.cookies',
+  'request.headers.authorization',
+  'request.headers.cookie',
+  'request.headers.x-forwarded-for',
+  'request.headers.x-real-ip',
+];
+
+function luhnCheck(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function ibanCheck(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = char >= 'A' ? char.charCodeAt(0) - 55 : Number(char);
+    remainder = Number(`${remainder}${code}`) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * National phone numbers: an area code in parentheses or followed by a space
+ * or hyphen, then groups of digits, or the dotted `555.123.4567` format
+ */
+const NATIONAL_PHONE_PATTERN =
+  /^(?:\(\d{2,5}\) ?|\d{2,5}[ -])\d{2,8}(?:[ -]\d{2,8})*$|^\d{3}\.\d{3}\.\d{4}$/;
+
+const DATE_PATTERN = /^(?:\d{4}-\d{1,2}-\d{1,2}|\d{1,2}-\d{1,2}-\d{4})\b/;
+
+export const PII_DETECTORS: Record<BuiltInPiiDetector, PiiDetector> = {
+  jwt: {
+    name: 'jwt',
+    pattern: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]*/g,
+  },
+  email: {
+    name: 'email',
+    pattern: /[\w.%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  iban: {
+    name: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    validate: ibanCheck,
+  },
+  card: {
+    name: 'card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: luhnCheck,
+  },
+  phone: {
+    name: 'phone',
+    pattern: /(?<![\w+(])[+(]?\d[\d ().-]{5,}\d\b/g,
+    validate: (match) => {
+      const digits = match.replace(/\D/g, '').length;
+      if (digits < 7 || digits > 15) return false;
+      if (match.startsWith('+')) return true;
+      // Without a country code, only phone-style grouping counts: plain digit
+      // runs, dates, IP addresses and decimals are not phone numbers
+      return NATIONAL_PHONE_PATTERN.test(match) && !DATE_PATTERN.test(match);
+    },
+  },
+};
+
+const MAX_SCRUB_DEPTH = 10;
+
+function defaultReplace(kind: string): string {
+  return `[${kind}]`;
+}
+
+/**
+ * Creates a function that removes personal data from events: values at the
+ * configured field paths are replaced entirely, and detectors replace
+ * matches inside free-form strings. Returns a scrubbed copy; the original
+ * event is not modified.
+ */
+export function createPiiScrubber(
+  options: Omit<PiiScrubbingOptions<string>, 'purpose'> = {}
+): (event: Event) => Event {
+  const fieldPaths = (options.fieldPaths ?? DEFAULT_PII_FIELD_PATHS).map(
+    (path) => path.toLowerCase().split('.')
+  );
+  const detectors = (
+    options.detectors ?? (Object.keys(PII_DETECTORS) as BuiltInPiiDetector[])
+  ).map((detector) =>
+    typeof detector === 'string' ? PII_DETECTORS[detector] : detector
+  );
+  const replace = options.replace ?? defaultReplace;
+
+  const scrubString = (value: string): string =>
+    detectors.reduce(
+      (text, { name, pattern, validate }) =>
+        text.replace(pattern, (match) =>
+          !validate || validate(match) ? replace(name, match) : match
+        ),
+      value
+    );
+
+  const scrubValue = (value: unknown, depth = 0): unknown => {
+    if (typeof value === 'string') return scrubString(value);
+    if (typeof value !== 'object' || value === null) return value;
+    if (depth >= MAX_SCRUB_DEPTH) return value;
+
+    if (Array.isArray(value)) {
+      return value.map((item) => scrubValue(item, depth + 1));
+    }
+
+    const result: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, nested]) => {
+      result[key] = scrubValue(nested, depth + 1);
+    });
+    return result;
+  };
+
+  const redactPath = (value: unknown, path: string[]): unknown => {
+    if (typeof value !== 'object' || value === null) return value;
+    const [segment, ...rest] = path;
+    if (segment === undefined) return value;
+
+    const copy: Record<string, unknown> = Array.isArray(value)
+      ? ([...value] as unknown as Record<string, unknown>)
+      : { ...value };
+    Object.keys(copy).forEach((key) => {
+      if (segment !== '*' && key.toLowerCase() !== segment) return;
+      const nested = copy[key];
+      if (rest.length > 0) {
+        copy[key] = redactPath(nested, rest);
+      } else if (nested !== undefined && nested !== null) {
+        copy[key] = replace(
+          'pii',
+          typeof nested === 'string' ? nested : JSON.stringify(nested)
+        );
+      }
+    });
+    return copy;
+  };
+
+  return (event) => {
+    let scrubbed = { ...event } as Record<string, unknown>;
+    fieldPaths.forEach((path) => {
+      scrubbed = redactPath(scrubbed, path) as Record<string, unknown>;
+    });
+
+    const result = scrubbed as Event;
+    if (result.message !== undefined) {
+      result.message = scrubString(result.message);
+    }
+    if (result.logentry) {
+      result.logentry = scrubValue(result.logentry) as NonNullable<
+        Event['logentry']
+      >;
+    }
+    if (result.exception?.values) {
+      result.exception = {
+        ...result.exception,
+        values: result.exception.values.map((exception) =>
+          exception.value === undefined
+            ? exception
+            : { ...exception, value: scrubString(exception.value) }
+        ),
+      };
+    }
+    if (result.extra) {
+      result.extra = scrubValue(result.extra) as NonNullable<Event['extra']>;
+    }
+    if (result.contexts) {
+      result.contexts = scrubValue(result.contexts) as NonNullable<
+        Event['contexts']
+      >;
+    }
+    if (result.breadcrumbs) {
+      result.breadcrumbs = result.breadcrumbs.map((breadcrumb) => ({
+        ...breadcrumb,
+        ...(breadcrumb.message !== undefined && {
+          message: scrubString(breadcrumb.message),
+        }),
+        ...(breadcrumb.data && {
+          data: scrubValue(breadcrumb.data) as Record<string, unknown>,
+        }),
+      }));
+    }
+    return result;
+  };
+}
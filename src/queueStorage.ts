@@ -0,0 +1,178 @@
+import type { Event } from '@sentry/core';
+
+/**
+ * Queued event as written to persistent storage
+ * Event hints are not persisted since they may hold non-serializable data
+ * such as the original exception object
+ */
+export interface StoredQueuedEvent {
+  event: Event;
+  queuedAt: number;
+}
+
+/**
+ * Storage adapter used to keep the pre-consent queue across page navigations
+ *
+ * Implementations must make `clear()` permanent: it is called as soon as
+ * consent is denied or the consent timeout fallback runs.
+ */
+export interface QueueStorage {
+  load(): Promise<StoredQueuedEvent[]>;
+  save(entries: StoredQueuedEvent[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface SessionStorageQueueOptions {
+  /**
+   * Key used to store the queue
+   * @default 'sentry-consent-queue'
+   */
+  key?: string;
+}
+
+export interface IndexedDBQueueOptions {
+  /**
+   * @default 'sentry-consent-integration'
+   */
+  databaseName?: string;
+
+  /**
+   * @default 'queue'
+   */
+  storeName?: string;
+}
+
+const DEFAULT_STORAGE_KEY = 'sentry-consent-queue';
+const DEFAULT_DATABASE_NAME = 'sentry-consent-integration';
+const DEFAULT_STORE_NAME = 'queue';
+
+/**
+ * Strip anything that does not survive JSON serialization and drop entries
+ * that cannot be serialized at all (e.g. circular extras)
+ */
+export function toStorableEntries(
+  entries: StoredQueuedEvent[]
+): StoredQueuedEvent[] {
+  return entries.flatMap((entry) => {
+    try {
+      return [JSON.parse(JSON.stringify(entry)) as StoredQueuedEvent];
+    } catch {
+      return [];
+    }
+  });
+}
+
+function isStoredQueuedEvent(value: unknown): value is StoredQueuedEvent {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as StoredQueuedEvent).event === 'object' &&
+    typeof (value as StoredQueuedEvent).queuedAt === 'number'
+  );
+}
+
+/**
+ * Queue storage backed by `window.sessionStorage`
+ * Data is scoped to the current tab and is gone when the tab is closed
+ */
+export function sessionStorageQueueStorage(
+  options: SessionStorageQueueOptions = {}
+): QueueStorage {
+  const key = options.key ?? DEFAULT_STORAGE_KEY;
+  const getStorage = (): Storage | undefined => {
+    try {
+      return typeof window !== 'undefined' ? window.sessionStorage : undefined;
+    } catch {
+      // Access can throw when storage is disabled by browser settings
+      return undefined;
+    }
+  };
+
+  return {
+    async load() {
+      const raw = getStorage()?.getItem(key);
+      if (!raw) return [];
+
+      try {
+        const parsed: unknown = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed.filter(isStoredQueuedEvent) : [];
+      } catch {
+        return [];
+      }
+    },
+    async save(entries) {
+      getStorage()?.setItem(key, JSON.stringify(toStorableEntries(entries)));
+    },
+    async clear() {
+      getStorage()?.removeItem(key);
+    },
+  };
+}
+
+/**
+ * Queue storage backed by IndexedDB
+ * Suited for larger queues than sessionStorage quotas allow
+ */
+export function indexedDBQueueStorage(
+  options: IndexedDBQueueOptions = {}
+): QueueStorage {
+  const databaseName = options.databaseName ?? DEFAULT_DATABASE_NAME;
+  const storeName = options.storeName ?? DEFAULT_STORE_NAME;
+  const recordKey = 'entries';
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+      databasePromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed
+      databasePromise.catch(() => {
+        databasePromise = null;
+      });
+    }
+    return databasePromise;
+  };
+
+  const run = <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> =>
+    openDatabase().then(
+      (database) =>
+        new Promise<T>((resolve, reject) => {
+          const transaction = database.transaction(storeName, mode);
+          const request = operation(transaction.objectStore(storeName));
+          transaction.oncomplete = () => resolve(request.result);
+          transaction.onerror = () => reject(transaction.error);
+          transaction.onabort = () => reject(transaction.error);
+        })
+    );
+
+  return {
+    async load() {
+      const stored: unknown = await run('readonly', (store) =>
+        store.get(recordKey)
+      );
+      return Array.isArray(stored) ? stored.filter(isStoredQueuedEvent) : [];
+    },
+    async save(entries) {
+      await run('readwrite', (store) =>
+        store.put(toStorableEntries(entries), recordKey)
+      );
+    },
+    async clear() {
+      await run('readwrite', (store) => store.delete(recordKey));
+    },
+  };
+}
@@ -0,0 +1,251 @@
+import type { Context, Extras, Primitive, Scope, User } from '@sentry/core';
+
+import {
+  classifyDataKey,
+  type DataClassification,
+  type ScopeDataKind,
+} from './dataClassification.js';
+
+/**
+ * User, tags, contexts and extras of a scope
+ */
+export interface ScopeSnapshot {
+  user: User | null;
+  tags: Record<string, Primitive>;
+  contexts: Record<string, Context>;
+  extra: Extras;
+}
+
+interface HeldItem {
+  kind: ScopeDataKind;
+  key: string;
+  value: unknown;
+  purpose: string;
+}
+
+function hasUserData(user: User | undefined): user is User {
+  return !!user && Object.values(user).some((value) => value !== undefined);
+}
+
+function withoutUndefined<T>(record: Record<string, T>): Record<string, T> {
+  const result: Record<string, T> = {};
+  Object.entries(record).forEach(([key, value]) => {
+    if (value !== undefined) result[key] = value;
+  });
+  return result;
+}
+
+/**
+ * Read user, tags, contexts and extras from a scope, skipping values that
+ * were unset
+ */
+export function readScopeSnapshot(scope: Scope): ScopeSnapshot {
+  const { user, tags, contexts, extra } = scope.getScopeData();
+
+  return {
+    user: hasUserData(user) ? withoutUndefined({ ...user }) : null,
+    tags: withoutUndefined(tags),
+    contexts: { ...contexts } as Record<string, Context>,
+    extra: withoutUndefined(extra),
+  };
+}
+
+/**
+ * Keeps classified scope data off the tracked scopes while the consent
+ * purpose it is classified under is denied, holding it in a shadow copy that
+ * is written back once the purpose is granted. Data set on a scope while its
+ * purpose is denied (e.g. `setUser()` after login) is moved into the shadow
+ * copy as well.
+ */
+export class ScopeDataShadow {
+  private scopes: Scope[] = [];
+  // Scopes the shadow has a listener on, tracked or not
+  private listenedScopes = new WeakSet<Scope>();
+  private held = new Map<Scope, Map<string, HeldItem>>();
+  // User objects last written by the shadow, used to tell them apart from a
+  // setUser() call made by the application
+  private ownUsers = new Map<Scope, User>();
+  private deniedPurposes = new Set<string>();
+  private isApplying = false;
+
+  constructor(private classification: DataClassification<string>) {}
+
+  /**
+   * Start tracking scopes. Scope listeners cannot be removed, so each scope
+   * gets a single listener that does nothing while the scope is not tracked,
+   * e.g. after dispose().
+   */
+  public track(scopes: Scope[]): void {
+    scopes.forEach((scope) => {
+      if (this.scopes.includes(scope)) return;
+      this.scopes.push(scope);
+      if (this.listenedScopes.has(scope)) return;
+
+      this.listenedScopes.add(scope);
+      scope.addScopeListener(() => this.handleScopeUpdate(scope));
+    });
+  }
+
+  /**
+   * Move data classified under the purpose from all tracked scopes into the
+   * shadow copy
+   */
+  public revoke(purpose: string): void {
+    this.deniedPurposes.add(purpose);
+    this.scopes.forEach((scope) => this.stash(scope));
+  }
+
+  /**
+   * Write data classified under the purpose back to the scopes it was taken
+   * from
+   */
+  public grant(purpose: string): void {
+    this.deniedPurposes.delete(purpose);
+    this.scopes.forEach((scope) => this.restore(scope, purpose));
+  }
+
+  /**
+   * Data currently held back, merged across scopes
+   */
+  public getShadowData(): ScopeSnapshot {
+    const merged: ScopeSnapshot = {
+      user: null,
+      tags: {},
+      contexts: {},
+      extra: {},
+    };
+    this.held.forEach((items) => {
+      items.forEach(({ kind, key, value }) => {
+        if (kind === 'user') {
+          merged.user = { ...merged.user, [key]: value };
+        } else if (kind === 'tags') {
+          merged.tags[key] = value as Primitive;
+        } else if (kind === 'contexts') {
+          merged.contexts[key] = value as Context;
+        } else {
+          merged.extra[key] = value;
+        }
+      });
+    });
+    return merged;
+  }
+
+  /**
+   * Stop tracking all scopes and forget the held data. Scopes tracked again
+   * afterwards reuse their listener.
+   */
+  public dispose(): void {
+    this.scopes = [];
+    this.held.clear();
+    this.ownUsers.clear();
+    this.deniedPurposes.clear();
+  }
+
+  private handleScopeUpdate(scope: Scope): void {
+    if (
+      !this.scopes.includes(scope) ||
+      this.isApplying ||
+      this.deniedPurposes.size === 0
+    ) {
+      return;
+    }
+
+    // setUser() replaces the whole user, e.g. on login or logout, so held
+    // user fields of the previous user must not come back
+    const { user } = scope.getScopeData();
+    if (this.ownUsers.has(scope) && user !== this.ownUsers.get(scope)) {
+      const items = this.held.get(scope);
+      items?.forEach((item, id) => {
+        if (item.kind === 'user') items.delete(id);
+      });
+      this.ownUsers.delete(scope);
+    }
+
+    this.stash(scope);
+  }
+
+  private stash(scope: Scope): void {
+    const snapshot = readScopeSnapshot(scope);
+    const items = this.held.get(scope) ?? new Map<string, HeldItem>();
+    const found: HeldItem[] = [];
+
+    const collect = (kind: ScopeDataKind, record: Record<string, unknown>) => {
+      Object.entries(record).forEach(([key, value]) => {
+        const purpose = classifyDataKey(this.classification, kind, key);
+        if (purpose !== undefined && this.deniedPurposes.has(purpose)) {
+          found.push({ kind, key, value, purpose });
+        }
+      });
+    };
+    collect('user', snapshot.user ?? {});
+    collect('tags', snapshot.tags);
+    collect('contexts', snapshot.contexts);
+    collect('extras', snapshot.extra);
+    if (found.length === 0) return;
+
+    found.forEach((item) => items.set(`${item.kind}:${item.key}`, item));
+    this.held.set(scope, items);
+
+    this.withoutTracking(() => {
+      const heldUserKeys = found
+        .filter(({ kind }) => kind === 'user')
+        .map(({ key }) => key);
+      if (heldUserKeys.length > 0 && snapshot.user) {
+        const remaining = { ...snapshot.user };
+        heldUserKeys.forEach((key) => delete remaining[key]);
+        this.setUser(scope, hasUserData(remaining) ? remaining : null);
+      }
+
+      found.forEach(({ kind, key }) => {
+        if (kind === 'tags') scope.setTag(key, undefined);
+        if (kind === 'contexts') scope.setContext(key, null);
+        if (kind === 'extras') scope.setExtra(key, undefined);
+      });
+    });
+  }
+
+  private restore(scope: Scope, purpose: string): void {
+    const items = this.held.get(scope);
+    if (!items) return;
+
+    const restored = [...items.entries()].filter(
+      ([, item]) => item.purpose === purpose
+    );
+    if (restored.length === 0) return;
+
+    this.withoutTracking(() => {
+      const userFields: Record<string, unknown> = {};
+      restored.forEach(([id, { kind, key, value }]) => {
+        items.delete(id);
+        if (kind === 'user') userFields[key] = value;
+        if (kind === 'tags') scope.setTag(key, value as Primitive);
+        if (kind === 'contexts') scope.setContext(key, value as Context);
+        if (kind === 'extras') scope.setExtra(key, value);
+      });
+
+      if (Object.keys(userFields).length > 0) {
+        const current = readScopeSnapshot(scope).user ?? {};
+        this.setUser(scope, { ...current, ...userFields });
+      }
+    });
+
+    if (items.size === 0) {
+      this.held.delete(scope);
+      this.ownUsers.delete(scope);
+    }
+  }
+
+  private setUser(scope: Scope, user: User | null): void {
+    scope.setUser(user);
+    this.ownUsers.set(scope, scope.getScopeData().user);
+  }
+
+  private withoutTracking(callback: () => void): void {
+    this.isApplying = true;
+    try {
+      callback();
+    } finally {
+      this.isApplying = false;
+    }
+  }
+}
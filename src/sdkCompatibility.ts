@@ -0,0 +1,207 @@
+import { SDK_VERSION, type Client } from '@sentry/core';
+
+import {
+  isRuleGranted,
+  type ConsentPolicy,
+  type ConsentPolicyKey,
+} from './consentPolicy.js';
+import type { ConsentState } from './SentryConsentIntegration.js';
+
+/**
+ * Sentry SDK major versions with a dedicated option adapter
+ */
+export const SUPPORTED_SDK_MAJOR_VERSIONS = [8, 9, 10] as const;
+
+export type SupportedSdkMajorVersion =
+  (typeof SUPPORTED_SDK_MAJOR_VERSIONS)[number];
+
+/**
+ * Client option written together with a policy key
+ */
+export interface RelatedClientOption {
+  /**
+   * Name of the client option
+   */
+  option: string;
+
+  /**
+   * Value applied while the policy key's rule is denied
+   * While granted the option gets the user's original value, or is removed
+   * if the user did not set it
+   */
+  deniedValue: unknown;
+}
+
+/**
+ * Describes which client options an SDK major version honours for each
+ * consent policy key
+ */
+export interface SdkOptionAdapter {
+  /**
+   * SDK major version the adapter targets
+   */
+  majorVersion: SupportedSdkMajorVersion;
+
+  /**
+   * Policy keys whose client option the SDK no longer reads; their values
+   * are not written to the client
+   */
+  removedKeys: ConsentPolicyKey[];
+
+  /**
+   * Further client options that have to follow a policy key, e.g. a sampler
+   * callback that takes precedence over the sample rate
+   */
+  relatedOptions: Partial<Record<ConsentPolicyKey, RelatedClientOption[]>>;
+}
+
+// tracesSampler takes precedence over tracesSampleRate in every version
+const TRACES_SAMPLER: RelatedClientOption = {
+  option: 'tracesSampler',
+  deniedValue: undefined,
+};
+
+/**
+ * Option adapters per SDK major version
+ *
+ * - v8: `autoSessionTracking` and the deprecated `enableTracing` are read
+ * - v9: `autoSessionTracking` is removed in favour of
+ *   `browserSessionIntegration()` and `enableTracing` is removed
+ * - v10: UI profiling is sampled with `profileSessionSampleRate`, and with
+ *   `traceLifecycle: 'stream'` spans are sent as they end instead of in
+ *   transactions, which skips event processing and `beforeSendTransaction`
+ */
+export const SDK_OPTION_ADAPTERS: Record<
+  SupportedSdkMajorVersion,
+  SdkOptionAdapter
+> = {
+  8: {
+    majorVersion: 8,
+    removedKeys: [],
+    relatedOptions: {
+      tracesSampleRate: [
+        TRACES_SAMPLER,
+        { option: 'enableTracing', deniedValue: false },
+      ],
+    },
+  },
+  9: {
+    majorVersion: 9,
+    removedKeys: ['autoSessionTracking'],
+    relatedOptions: {
+      tracesSampleRate: [TRACES_SAMPLER],
+    },
+  },
+  10: {
+    majorVersion: 10,
+    removedKeys: ['autoSessionTracking'],
+    relatedOptions: {
+      tracesSampleRate: [
+        TRACES_SAMPLER,
+        // Spans already sampled keep going to transactions, which consent
+        // checks can still drop
+        { option: 'traceLifecycle', deniedValue: 'static' },
+      ],
+      profilesSampleRate: [
+        { option: 'profileSessionSampleRate', deniedValue: 0.0 },
+      ],
+    },
+  },
+};
+
+function parseMajorVersion(version: unknown): number | undefined {
+  if (typeof version !== 'string') return undefined;
+  const major = Number.parseInt(version.split('.')[0] ?? '', 10);
+  return Number.isNaN(major) ? undefined : major;
+}
+
+/**
+ * Detect the major version of the SDK running a client
+ * Reads the SDK metadata of the client, falling back to the version of the
+ * installed `@sentry/core`.
+ */
+export function detectSdkMajorVersion(client?: Client): number | undefined {
+  return (
+    parseMajorVersion(client?.getSdkMetadata?.()?.sdk?.version) ??
+    parseMajorVersion(SDK_VERSION)
+  );
+}
+
+/**
+ * Get the option adapter for an SDK major version
+ * Versions outside the supported range use the nearest supported adapter.
+ */
+export function getSdkOptionAdapter(majorVersion?: number): SdkOptionAdapter {
+  const oldest = SUPPORTED_SDK_MAJOR_VERSIONS[0];
+  const newest =
+    SUPPORTED_SDK_MAJOR_VERSIONS[SUPPORTED_SDK_MAJOR_VERSIONS.length - 1] ??
+    oldest;
+
+  if (majorVersion === undefined || majorVersion < oldest) {
+    return SDK_OPTION_ADAPTERS[oldest];
+  }
+  if (majorVersion > newest) {
+    return SDK_OPTION_ADAPTERS[newest];
+  }
+  return SDK_OPTION_ADAPTERS[majorVersion as SupportedSdkMajorVersion];
+}
+
+/**
+ * Client options written for a policy with an adapter
+ */
+export function getAdaptedOptionKeys(
+  adapter: SdkOptionAdapter,
+  policy: ConsentPolicy<string>
+): string[] {
+  return (Object.keys(policy) as ConsentPolicyKey[]).flatMap((key) =>
+    adapter.removedKeys.includes(key)
+      ? []
+      : [
+          key,
+          ...(adapter.relatedOptions[key] ?? []).map(({ option }) => option),
+        ]
+  );
+}
+
+/**
+ * Translate the config built from a policy into the client options the SDK
+ * honours. Granted options the user did not set are left out of the result
+ * and should be removed from the client options, since the SDK treats some
+ * of them differently when present (e.g. any `tracesSampleRate` enables
+ * tracing).
+ *
+ * @param originalOptions Client options the user set, by name
+ */
+export function adaptPolicyConfig(
+  adapter: SdkOptionAdapter,
+  policy: ConsentPolicy<string>,
+  consentState: ConsentState<string>,
+  config: Partial<Record<ConsentPolicyKey, unknown>>,
+  originalOptions: Record<string, unknown>
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  (Object.keys(config) as ConsentPolicyKey[]).forEach((key) => {
+    const rule = policy[key];
+    if (!rule || adapter.removedKeys.includes(key)) return;
+
+    const isGranted = isRuleGranted(rule, consentState);
+    if (
+      !isGranted ||
+      Object.prototype.hasOwnProperty.call(originalOptions, key)
+    ) {
+      result[key] = config[key];
+    }
+    (adapter.relatedOptions[key] ?? []).forEach(({ option, deniedValue }) => {
+      if (!isGranted) {
+        result[option] = deniedValue;
+      } else if (
+        Object.prototype.hasOwnProperty.call(originalOptions, option)
+      ) {
+        result[option] = originalOptions[option];
+      }
+    });
+  });
+
+  return result;
+}
@@ -0,0 +1,203 @@
+import type {
+  BaseTransportOptions,
+  DataCategory,
+  Envelope,
+  EnvelopeItemType,
+  Transport,
+  TransportMakeRequestResponse,
+} from '@sentry/core';
+
+import type { DefaultConsentPurpose } from './configurationKeys.js';
+import type {
+  ConsentIntegration,
+  ConsentState,
+} from './SentryConsentIntegration.js';
+
+/**
+ * Maps envelope item types to the consent purpose that must be granted for
+ * the item to be sent. Item types without a purpose are sent unchanged.
+ */
+export type EnvelopeItemPurposes<P extends string = DefaultConsentPurpose> =
+  Partial<Record<EnvelopeItemType, P>>;
+
+/**
+ * Default purpose per envelope item type
+ * Error events are not listed since processEvent already gates them
+ */
+export const DEFAULT_ENVELOPE_ITEM_PURPOSES: EnvelopeItemPurposes = {
+  session: 'functional',
+  sessions: 'functional',
+  transaction: 'analytics',
+  span: 'analytics',
+  profile: 'analytics',
+  profile_chunk: 'analytics',
+  replay_event: 'preferences',
+  replay_recording: 'preferences',
+};
+
+export interface ConsentAwareTransportOptions<
+  P extends string = DefaultConsentPurpose,
+> {
+  /**
+   * Purpose required for each envelope item type
+   * @default DEFAULT_ENVELOPE_ITEM_PURPOSES
+   */
+  itemPurposes?: EnvelopeItemPurposes<P>;
+
+  /**
+   * Maximum number of envelopes held while consent is not determined yet
+   * The oldest envelope is dropped when the limit is exceeded
+   * @default 30
+   */
+  maxHeldEnvelopes?: number;
+}
+
+/**
+ * The part of the consent integration the transport relies on
+ */
+export type ConsentStateSource<P extends string = DefaultConsentPurpose> = Pick<
+  ConsentIntegration<P>,
+  'getConsentState' | 'isReady' | 'isEnforcing' | 'onConsentStateChange' | 'on'
+>;
+
+const ITEM_DATA_CATEGORIES: Partial<Record<EnvelopeItemType, DataCategory>> = {
+  session: 'session',
+  sessions: 'session',
+  transaction: 'transaction',
+  span: 'span',
+  profile: 'profile',
+  profile_chunk: 'profile',
+  replay_event: 'replay',
+  replay_recording: 'replay',
+};
+
+const EMPTY_RESPONSE: TransportMakeRequestResponse = {};
+
+/**
+ * Wraps a Sentry transport so that envelope items which never reach
+ * processEvent (sessions, transactions, profiles, replays) are subject to
+ * consent as well.
+ *
+ * While consent is not determined, envelopes with consent-bound items are
+ * held back. Once the integration has a consent decision, held envelopes are
+ * re-evaluated and items whose purpose is not granted are dropped. While
+ * the integration is suspended or torn down, envelopes are sent unchanged and
+ * held envelopes are sent as they are.
+ *
+ * @example
+ * ```typescript
+ * const consentIntegration = sentryConsentIntegration({ ... });
+ *
+ * Sentry.init({
+ *   dsn: 'YOUR_DSN',
+ *   transport: makeConsentAwareTransport(
+ *     Sentry.makeFetchTransport,
+ *     consentIntegration
+ *   ),
+ *   integrations: [consentIntegration],
+ * });
+ * ```
+ */
+export function makeConsentAwareTransport<
+  O extends BaseTransportOptions,
+  P extends string = DefaultConsentPurpose,
+>(
+  baseTransportFactory: (options: O) => Transport,
+  integration: ConsentStateSource<P>,
+  options: ConsentAwareTransportOptions<P> = {}
+): (transportOptions: O) => Transport {
+  const itemPurposes: EnvelopeItemPurposes<string> =
+    options.itemPurposes ?? DEFAULT_ENVELOPE_ITEM_PURPOSES;
+  const maxHeldEnvelopes = options.maxHeldEnvelopes ?? 30;
+
+  return (transportOptions: O): Transport => {
+    const transport = baseTransportFactory(transportOptions);
+    let heldEnvelopes: Envelope[] = [];
+
+    const recordDroppedItems = (envelope: Envelope): void => {
+      envelope[1].forEach(([itemHeaders]) => {
+        const category = ITEM_DATA_CATEGORIES[itemHeaders.type];
+        if (category) {
+          transportOptions.recordDroppedEvent('event_processor', category);
+        }
+      });
+    };
+
+    const requiresConsent = (envelope: Envelope): boolean =>
+      envelope[1].some(([itemHeaders]) => itemPurposes[itemHeaders.type]);
+
+    const filterEnvelope = (
+      envelope: Envelope,
+      consentState: ConsentState<string>
+    ): Envelope | null => {
+      const [headers, items] = envelope;
+      const allowedItems = items.filter(([itemHeaders]) => {
+        const purpose = itemPurposes[itemHeaders.type];
+        return !purpose || consentState[purpose] === true;
+      });
+
+      if (allowedItems.length !== items.length) {
+        const droppedItems = items.filter(
+          (item) => !(allowedItems as unknown[]).includes(item)
+        );
+        recordDroppedItems([headers, droppedItems] as Envelope);
+      }
+
+      return allowedItems.length > 0
+        ? ([headers, allowedItems] as Envelope)
+        : null;
+    };
+
+    const sendAllowed = (
+      envelope: Envelope
+    ): PromiseLike<TransportMakeRequestResponse> => {
+      const allowedEnvelope = filterEnvelope(
+        envelope,
+        integration.getConsentState()
+      );
+      return allowedEnvelope
+        ? transport.send(allowedEnvelope)
+        : Promise.resolve(EMPTY_RESPONSE);
+    };
+
+    const releaseHeldEnvelopes = (
+      send: (envelope: Envelope) => PromiseLike<TransportMakeRequestResponse>
+    ): void => {
+      const envelopes = heldEnvelopes;
+      heldEnvelopes = [];
+      envelopes.forEach((envelope) => {
+        void send(envelope);
+      });
+    };
+
+    integration.onConsentStateChange(() => {
+      if (integration.isReady()) releaseHeldEnvelopes(sendAllowed);
+    });
+
+    // The host application is in control again
+    const forwardHeldEnvelopes = () =>
+      releaseHeldEnvelopes((envelope) => transport.send(envelope));
+    integration.on('suspended', forwardHeldEnvelopes);
+    integration.on('tornDown', forwardHeldEnvelopes);
+
+    return {
+      send(envelope: Envelope): PromiseLike<TransportMakeRequestResponse> {
+        if (!integration.isEnforcing()) return transport.send(envelope);
+
+        if (!integration.isReady() && requiresConsent(envelope)) {
+          heldEnvelopes.push(envelope);
+          if (heldEnvelopes.length > maxHeldEnvelopes) {
+            const dropped = heldEnvelopes.shift();
+            if (dropped) recordDroppedItems(dropped);
+          }
+          return Promise.resolve(EMPTY_RESPONSE);
+        }
+
+        return sendAllowed(envelope);
+      },
+      flush(timeout?: number): PromiseLike<boolean> {
+        return transport.flush(timeout);
+      },
+    };
+  };
+}
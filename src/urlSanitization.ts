@@ -0,0 +1,314 @@
+import type { Breadcrumb, Event, QueryParams } from '@sentry/core';
+
+import type { DefaultConsentPurpose } from './configurationKeys.js';
+import { matchesKey, type DataKeyPattern } from './dataClassification.js';
+import type { ConsentState } from './SentryConsentIntegration.js';
+
+export interface UrlSanitizationOptions<
+  P extends string = DefaultConsentPurpose,
+> {
+  /**
+   * Purpose needed to keep campaign and click ID parameters
+   * @default 'marketing'
+   */
+  trackingPurpose?: P;
+
+  /**
+   * Campaign and click ID parameters removed without the tracking purpose
+   * @default DEFAULT_TRACKING_PARAMS
+   */
+  trackingParams?: DataKeyPattern[];
+
+  /**
+   * Purpose needed to keep query values, fragments and route IDs
+   * @default 'preferences'
+   */
+  purpose?: P;
+
+  /**
+   * Parameters whose values are kept without the purpose, e.g. `page` or
+   * `sort`. Tracking parameters are removed even when allowed here.
+   * @default []
+   */
+  allowedParams?: DataKeyPattern[];
+
+  /**
+   * Replace numeric IDs, UUIDs and long hex or ULID segments of URL paths
+   * with `:id` without the purpose
+   * @default true
+   */
+  collapseRouteIds?: boolean;
+}
+
+/**
+ * Which parts of a URL to remove
+ */
+export interface UrlSanitizationRules {
+  dropParams: DataKeyPattern[];
+  stripValues: boolean;
+  allowedParams: DataKeyPattern[];
+  collapseRouteIds: boolean;
+}
+
+/**
+ * Campaign parameters and click IDs of common ad networks
+ */
+export const DEFAULT_TRACKING_PARAMS: DataKeyPattern[] = [
+  'utm_*',
+  'gclid',
+  'gclsrc',
+  'gbraid',
+  'wbraid',
+  'dclid',
+  'fbclid',
+  'msclkid',
+  'ttclid',
+  'twclid',
+  'li_fat_id',
+  'mc_cid',
+  'mc_eid',
+  '_hsenc',
+  '_hsmi',
+  'yclid',
+];
+
+export const FILTERED_QUERY_VALUE = '[Filtered]';
+
+const ROUTE_ID_PATTERNS = [
+  /^\d+$/,
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  /^[0-9a-f]{16,}$/i,
+  /^[0-9A-HJKMNP-TV-Z]{26}$/,
+];
+
+// Breadcrumb data keys holding URLs (fetch/xhr `url`, navigation `from`/`to`)
+const BREADCRUMB_URL_KEYS = ['url', 'from', 'to'];
+
+// Span data keys holding URLs or their parts
+const SPAN_URL_KEYS = ['url', 'http.url', 'url.full', 'http.target'];
+const SPAN_QUERY_KEYS = ['http.query', 'url.query'];
+const SPAN_FRAGMENT_KEYS = ['http.fragment', 'url.fragment'];
+
+function decodeParam(key: string): string {
+  try {
+    return decodeURIComponent(key.replace(/\+/g, ' '));
+  } catch {
+    return key;
+  }
+}
+
+function sanitizeQuery(query: string, rules: UrlSanitizationRules): string {
+  return query
+    .split('&')
+    .filter((pair) => pair.length > 0)
+    .flatMap((pair) => {
+      const separatorIndex = pair.indexOf('=');
+      const rawKey =
+        separatorIndex === -1 ? pair : pair.slice(0, separatorIndex);
+      const key = decodeParam(rawKey);
+
+      if (rules.dropParams.some((pattern) => matchesKey(pattern, key))) {
+        return [];
+      }
+      if (
+        rules.stripValues &&
+        separatorIndex !== -1 &&
+        !rules.allowedParams.some((pattern) => matchesKey(pattern, key))
+      ) {
+        return [`${rawKey}=${FILTERED_QUERY_VALUE}`];
+      }
+      return [pair];
+    })
+    .join('&');
+}
+
+// Key/value forms of the query string are rebuilt as a string
+function toQueryString(queryString: QueryParams): string {
+  if (typeof queryString === 'string') return queryString;
+
+  const pairs = Array.isArray(queryString)
+    ? queryString
+    : Object.entries(queryString);
+  return pairs
+    .map(
+      ([key, value]) =>
+        `${encodeURIComponent(key)}=${encodeURIComponent(value)}`
+    )
+    .join('&');
+}
+
+function collapsePath(path: string): string {
+  return path
+    .split('/')
+    .map((segment) =>
+      ROUTE_ID_PATTERNS.some((pattern) => pattern.test(segment))
+        ? ':id'
+        : segment
+    )
+    .join('/');
+}
+
+/**
+ * Remove tracking parameters, query values, the fragment and route IDs from
+ * an absolute or relative URL according to the rules
+ */
+export function sanitizeUrl(url: string, rules: UrlSanitizationRules): string {
+  const hashIndex = url.indexOf('#');
+  const withoutFragment = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const fragment = hashIndex === -1 ? '' : url.slice(hashIndex);
+  const queryIndex = withoutFragment.indexOf('?');
+  const base =
+    queryIndex === -1 ? withoutFragment : withoutFragment.slice(0, queryIndex);
+  const query = queryIndex === -1 ? '' : withoutFragment.slice(queryIndex + 1);
+
+  // Keep the origin of absolute URLs out of route ID collapsing
+  const originMatch = /^[a-z][a-z\d+.-]*:\/\/[^/]*/i.exec(base);
+  const origin = originMatch ? originMatch[0] : '';
+  const path = base.slice(origin.length);
+
+  const sanitizedQuery = query ? sanitizeQuery(query, rules) : '';
+  return [
+    origin,
+    rules.collapseRouteIds ? collapsePath(path) : path,
+    sanitizedQuery ? `?${sanitizedQuery}` : '',
+    rules.stripValues ? '' : fragment,
+  ].join('');
+}
+
+/**
+ * Sanitize URLs and paths inside free text such as span descriptions
+ * (`GET /api/users/42?token=abc`) or transaction names
+ */
+function sanitizeText(text: string, rules: UrlSanitizationRules): string {
+  return text
+    .split(' ')
+    .map((word) =>
+      word.startsWith('/') || /^[a-z][a-z\d+.-]*:\/\//i.test(word)
+        ? sanitizeUrl(word, rules)
+        : word
+    )
+    .join(' ');
+}
+
+function sanitizeUrlFields(
+  data: Record<string, unknown>,
+  rules: UrlSanitizationRules,
+  urlKeys: string[],
+  queryKeys: string[] = [],
+  fragmentKeys: string[] = []
+): Record<string, unknown> {
+  const result = { ...data };
+  Object.keys(result).forEach((key) => {
+    const value = result[key];
+    if (typeof value !== 'string') return;
+
+    if (urlKeys.includes(key)) {
+      result[key] = sanitizeUrl(value, rules);
+    } else if (queryKeys.includes(key)) {
+      const query = sanitizeQuery(value.replace(/^\?/, ''), rules);
+      result[key] = query && value.startsWith('?') ? `?${query}` : query;
+    } else if (fragmentKeys.includes(key) && rules.stripValues) {
+      delete result[key];
+    }
+  });
+  return result;
+}
+
+/**
+ * Creates a function that sanitizes the request URL, breadcrumb URLs, span
+ * descriptions and data, and the transaction name of an event for a consent
+ * state. Returns a sanitized copy; the original event is not modified.
+ */
+export function createUrlSanitizer(
+  options: UrlSanitizationOptions<string> = {}
+): (event: Event, consentState: ConsentState<string>) => Event {
+  const {
+    trackingPurpose = 'marketing',
+    trackingParams = DEFAULT_TRACKING_PARAMS,
+    purpose = 'preferences',
+    allowedParams = [],
+    collapseRouteIds = true,
+  } = options;
+
+  return (event, consentState) => {
+    const stripValues = consentState[purpose] !== true;
+    const rules: UrlSanitizationRules = {
+      dropParams: consentState[trackingPurpose] === true ? [] : trackingParams,
+      stripValues,
+      allowedParams,
+      collapseRouteIds: collapseRouteIds && stripValues,
+    };
+    if (rules.dropParams.length === 0 && !stripValues) return event;
+
+    const result: Event = { ...event };
+
+    if (result.request) {
+      const { url, query_string: queryString } = result.request;
+      result.request = {
+        ...result.request,
+        ...(url !== undefined && { url: sanitizeUrl(url, rules) }),
+        ...(queryString !== undefined && {
+          query_string: sanitizeQuery(toQueryString(queryString), rules),
+        }),
+      };
+    }
+
+    if (result.transaction !== undefined) {
+      result.transaction = sanitizeText(result.transaction, rules);
+    }
+
+    if (result.breadcrumbs) {
+      result.breadcrumbs = result.breadcrumbs.map((breadcrumb): Breadcrumb =>
+        breadcrumb.data
+          ? {
+              ...breadcrumb,
+              data: sanitizeUrlFields(
+                breadcrumb.data,
+                rules,
+                BREADCRUMB_URL_KEYS
+              ),
+            }
+          : breadcrumb
+      );
+    }
+
+    if (result.spans) {
+      result.spans = result.spans.map((span) => ({
+        ...span,
+        ...(span.description !== undefined && {
+          description: sanitizeText(span.description, rules),
+        }),
+        ...(span.data && {
+          data: sanitizeUrlFields(
+            span.data,
+            rules,
+            SPAN_URL_KEYS,
+            SPAN_QUERY_KEYS,
+            SPAN_FRAGMENT_KEYS
+          ),
+        }),
+      }));
+    }
+
+    const trace = result.contexts?.trace;
+    if (trace) {
+      result.contexts = {
+        ...result.contexts,
+        trace: {
+          ...trace,
+          ...(trace.data && {
+            data: sanitizeUrlFields(
+              trace.data,
+              rules,
+              SPAN_URL_KEYS,
+              SPAN_QUERY_KEYS,
+              SPAN_FRAGMENT_KEYS
+            ),
+          }),
+        },
+      };
+    }
+
+    return result;
+  };
+}
@@ -2,7 +2,7 @@ import {
   SENTRY_CONSENT_CONFIG_KEYS,
   SENTRY_DEFAULT_CONFIG,
   type SentryConsentConfigKey,
-} from './configurationKeys';
+} from './configurationKeys.js';
 
 /**
  * Utility to build a configuration object with only the tracked keys
@@ -32,3 +32,48 @@ export function isTrackedConfigKey(key: string): key is SentryConsentConfigKey {
 export function getTrackedConfigKeys(): readonly SentryConsentConfigKey[] {
   return SENTRY_CONSENT_CONFIG_KEYS;
 }
+
+/**
+ * Utility to hash a string with 32-bit FNV-1a, returned as 8 hex characters
+ * Not cryptographically secure; used for stable, short identifiers
+ */
+export function fnv1aHash(input: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Utility to check if a value is a promise or another thenable
+ */
+export function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as PromiseLike<unknown>).then === 'function'
+  );
+}
+
+/**
+ * Utility to check that the purposes an optional feature needs are known
+ *
+ * @throws Error naming the feature and its unknown purposes
+ */
+export function validateFeaturePurposes(
+  feature: string,
+  purposes: readonly string[],
+  knownPurposes: readonly string[]
+): void {
+  const unknown = [...new Set(purposes)].filter(
+    (purpose) => !knownPurposes.includes(purpose)
+  );
+
+  if (unknown.length > 0) {
+    throw new Error(
+      `[SentryConsentIntegration] Invalid ${feature}: unknown purpose "${unknown.join('", "')}"`
+    );
+  }
+}
@@ -0,0 +1,332 @@
+import * as Sentry from '@sentry/browser';
+import type { Envelope } from '@sentry/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { consentGatedIntegration } from '../src/integrationToggles';
+import {
+  sentryConsentIntegration,
+  type SentryConsentIntegrationOptions,
+} from '../src/SentryConsentIntegration';
+
+const DSN = 'https://public@o0.ingest.sentry.io/0';
+
+function initWithConsent(
+  options: Partial<SentryConsentIntegrationOptions> = {},
+  sentryOptions: Partial<Sentry.BrowserOptions> = {}
+) {
+  const integration = sentryConsentIntegration({
+    consentStateGetters: {
+      functional: () => true,
+      analytics: () => true,
+      marketing: () => true,
+      preferences: () => true,
+    },
+    onConsentChange: () => () => {},
+    ...options,
+  });
+  Sentry.init({
+    dsn: DSN,
+    defaultIntegrations: false,
+    integrations: [integration],
+    ...sentryOptions,
+  });
+  return integration;
+}
+
+// Transport that records the events it is asked to send
+function createRecordingTransport() {
+  const events: Sentry.Event[] = [];
+  const transport = () => ({
+    send: async (envelope: Envelope) => {
+      envelope[1].forEach(([header, payload]) => {
+        if (header.type === 'event') events.push(payload as Sentry.Event);
+      });
+      return {};
+    },
+    flush: async () => true,
+  });
+  return { events, transport };
+}
+
+describe('consent timeout', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('applies the fallback when getter promises never settle', async () => {
+    const pending = () => new Promise<boolean>(() => {});
+    const integration = initWithConsent({
+      consentStateGetters: {
+        functional: pending,
+        analytics: pending,
+        marketing: pending,
+        preferences: pending,
+      },
+      consentTimeout: 50,
+    });
+
+    expect(integration.isReady()).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(60);
+
+    expect(integration.isReady()).toBe(true);
+    expect(integration.getConsentState().functional).toBe(false);
+    integration.cleanup();
+  });
+
+  it('does not fire once consent is decided', async () => {
+    const fallback = vi.fn(() => 'deny-all' as const);
+    const integration = initWithConsent({
+      consentTimeout: 50,
+      consentTimeoutFallback: fallback,
+    });
+
+    await vi.advanceTimersByTimeAsync(60);
+
+    expect(fallback).not.toHaveBeenCalled();
+    expect(integration.getConsentState().functional).toBe(true);
+    integration.cleanup();
+  });
+});
+
+describe('cleanup', () => {
+  it('lets events through and can be set up again', () => {
+    let analytics = false;
+    const integration = initWithConsent({
+      consentStateGetters: {
+        functional: () => true,
+        analytics: () => analytics,
+        marketing: () => false,
+        preferences: () => false,
+      },
+      requiredPurposes: ['analytics'],
+    });
+    const client = Sentry.getClient()!;
+    const event = { message: 'denied' };
+
+    expect(integration.processEvent!(event, {}, client)).toBeNull();
+
+    integration.cleanup();
+    expect(integration.isReady()).toBe(false);
+    expect(integration.isEnforcing()).toBe(false);
+    expect(integration.processEvent!(event, {}, client)).toBe(event);
+    expect(client.getOptions().enabled).not.toBe(false);
+
+    analytics = true;
+    integration.setup!(client);
+    expect(integration.isEnforcing()).toBe(true);
+    expect(integration.isReady()).toBe(true);
+    expect(integration.getConsentState().analytics).toBe(true);
+    expect(integration.processEvent!(event, {}, client)).not.toBeNull();
+    integration.cleanup();
+  });
+});
+
+describe('clients', () => {
+  it('keeps options and queue per client', async () => {
+    let decided = false;
+    const triggers: Array<() => void> = [];
+    const recordingA = createRecordingTransport();
+    const recordingB = createRecordingTransport();
+    const integration = initWithConsent(
+      {
+        consentStateGetters: {
+          functional: () => (decided ? true : undefined),
+          analytics: () => (decided ? false : undefined),
+        },
+        onConsentChange: (trigger) => {
+          triggers.push(trigger);
+          return () => {};
+        },
+      },
+      { transport: recordingA.transport, maxBreadcrumbs: 50 }
+    );
+    const clientA = Sentry.getClient()!;
+    const clientB = new Sentry.BrowserClient({
+      dsn: DSN,
+      integrations: [],
+      maxBreadcrumbs: 20,
+      stackParser: Sentry.defaultStackParser,
+      transport: recordingB.transport,
+    });
+    clientB.init();
+    clientB.addIntegration(integration);
+
+    clientA.captureMessage('from A');
+    clientB.captureMessage('from B');
+
+    decided = true;
+    triggers.forEach((trigger) => trigger());
+
+    await vi.waitFor(() => {
+      expect(recordingA.events.map(({ message }) => message)).toEqual([
+        'from A',
+      ]);
+      expect(recordingB.events.map(({ message }) => message)).toEqual([
+        'from B',
+      ]);
+    });
+    expect(clientA.getOptions().maxBreadcrumbs).toBe(0);
+    expect(clientB.getOptions().maxBreadcrumbs).toBe(0);
+
+    integration.cleanup();
+    expect(clientA.getOptions().maxBreadcrumbs).toBe(50);
+    expect(clientB.getOptions().maxBreadcrumbs).toBe(20);
+  });
+});
+
+describe('policy validation', () => {
+  it('accepts setups that only track some purposes', () => {
+    const integration = sentryConsentIntegration({
+      consentStateGetters: { functional: () => true },
+      onConsentChange: () => () => {},
+    });
+
+    expect(integration.name).toBe('SentryConsentIntegration');
+  });
+
+  it('rejects custom rules with untracked purposes', () => {
+    expect(() =>
+      sentryConsentIntegration<'functional'>({
+        consentStateGetters: { functional: () => true },
+        onConsentChange: () => () => {},
+        policy: {
+          attachStacktrace: { purposes: ['analytics'], deniedValue: false },
+        },
+      })
+    ).toThrow(/"attachStacktrace" uses untracked purpose "analytics"/);
+  });
+});
+
+describe('queued events', () => {
+  it('removes scope data of denied purposes before release', async () => {
+    let decided = false;
+    let trigger = () => {};
+    const { events, transport } = createRecordingTransport();
+    const integration = initWithConsent(
+      {
+        consentStateGetters: {
+          functional: () => (decided ? true : undefined),
+          marketing: () => (decided ? false : undefined),
+        },
+        onConsentChange: (callback) => {
+          trigger = callback;
+          return () => {};
+        },
+      },
+      { transport }
+    );
+
+    Sentry.setUser({ id: 'u1' });
+    Sentry.setTag('utm_source', 'newsletter');
+    Sentry.setTag('release_channel', 'beta');
+    Sentry.captureMessage('queued');
+    expect(events).toHaveLength(0);
+
+    decided = true;
+    trigger();
+
+    await vi.waitFor(() => expect(events).toHaveLength(1));
+    const [released] = events;
+    expect(released?.user?.id).toBeUndefined();
+    expect(released?.tags).not.toHaveProperty('utm_source');
+    expect(released?.tags).toMatchObject({ 'consent.queued': 'true' });
+    integration.cleanup();
+    Sentry.setUser(null);
+  });
+
+  it('reports events dropped from a full queue as client outcomes', async () => {
+    let decided = false;
+    let trigger = () => {};
+    const { events, transport } = createRecordingTransport();
+    const integration = initWithConsent(
+      {
+        consentStateGetters: {
+          functional: () => (decided ? true : undefined),
+        },
+        onConsentChange: (callback) => {
+          trigger = callback;
+          return () => {};
+        },
+        queue: { maxEvents: 1 },
+      },
+      { transport }
+    );
+    const recordDroppedEvent = vi.spyOn(
+      Sentry.getClient()!,
+      'recordDroppedEvent'
+    );
+
+    Sentry.captureMessage('first');
+    Sentry.captureMessage('second');
+    Sentry.captureMessage('third');
+
+    decided = true;
+    trigger();
+
+    await vi.waitFor(() => expect(events).toHaveLength(1));
+    expect(events[0]?.message).toBe('third');
+    expect(
+      recordDroppedEvent.mock.calls.filter(
+        ([reason]) => reason === 'queue_overflow'
+      )
+    ).toEqual([
+      ['queue_overflow', 'error'],
+      ['queue_overflow', 'error'],
+    ]);
+    integration.cleanup();
+  });
+});
+
+describe('integration toggles', () => {
+  it('sets up gated integrations when toggling is disabled', () => {
+    const setup = vi.fn();
+    const integration = sentryConsentIntegration({
+      consentStateGetters: { functional: () => true, analytics: () => false },
+      onConsentChange: () => () => {},
+      integrationToggles: false,
+    });
+    Sentry.init({
+      dsn: DSN,
+      defaultIntegrations: false,
+      integrations: [
+        consentGatedIntegration({ name: 'CaptureConsole', setup }),
+        integration,
+      ],
+    });
+
+    expect(setup).toHaveBeenCalledTimes(1);
+    integration.cleanup();
+  });
+
+  it('only drops console events while CaptureConsole is disabled', async () => {
+    const { events, transport } = createRecordingTransport();
+    const integration = sentryConsentIntegration({
+      consentStateGetters: { functional: () => true, analytics: () => false },
+      onConsentChange: () => () => {},
+    });
+    Sentry.init({
+      dsn: DSN,
+      defaultIntegrations: false,
+      integrations: [
+        Sentry.captureConsoleIntegration({ levels: ['warn'] }),
+        integration,
+      ],
+      transport,
+    });
+
+    console.warn('from the console');
+    Sentry.withScope((scope) => {
+      scope.setExtra('arguments', ['--retry']);
+      Sentry.captureMessage('from the app');
+    });
+
+    await vi.waitFor(() => expect(events).toHaveLength(1));
+    expect(events[0]?.message).toBe('from the app');
+    integration.cleanup();
+  });
+});
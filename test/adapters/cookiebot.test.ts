@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  cookiebotConsentAdapter,
+  type CookiebotCategory,
+  type CookiebotGlobal,
+} from '../../src/adapters/cookiebot';
+
+function createCookiebotFake() {
+  const target = Object.assign(new EventTarget(), {
+    Cookiebot: { hasResponse: false } as CookiebotGlobal,
+  });
+
+  return {
+    target,
+    // Mimics the visitor answering the banner
+    respond(
+      eventName: string,
+      consent: Partial<Record<CookiebotCategory, boolean>>
+    ) {
+      target.Cookiebot = { hasResponse: true, consent };
+      target.dispatchEvent(new Event(eventName));
+    },
+  };
+}
+
+describe('cookiebotConsentAdapter', () => {
+  it('reports consent after the visitor responds and follows changes', () => {
+    const cookiebot = createCookiebotFake();
+    const adapter = cookiebotConsentAdapter({ target: cookiebot.target });
+    const getters = adapter.consentStateGetters;
+    const trigger = vi.fn();
+    const unsubscribe = adapter.onConsentChange(trigger);
+
+    expect(getters.functional?.()).toBeUndefined();
+
+    cookiebot.respond('CookiebotOnAccept', {
+      necessary: true,
+      statistics: true,
+      preferences: false,
+      marketing: false,
+    });
+    expect(trigger).toHaveBeenCalledTimes(1);
+    expect(getters.functional?.()).toBe(true);
+    expect(getters.analytics?.()).toBe(true);
+    expect(getters.preferences?.()).toBe(false);
+
+    cookiebot.respond('CookiebotOnDecline', { necessary: true });
+    expect(trigger).toHaveBeenCalledTimes(2);
+    expect(getters.analytics?.()).toBe(false);
+
+    unsubscribe();
+    cookiebot.respond('CookiebotOnConsentReady', { necessary: true });
+    expect(trigger).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads consent given on an earlier page', () => {
+    const cookiebot = createCookiebotFake();
+    cookiebot.target.Cookiebot = {
+      hasResponse: true,
+      consent: { necessary: true, marketing: true },
+    };
+    const adapter = cookiebotConsentAdapter({ target: cookiebot.target });
+
+    expect(adapter.consentStateGetters.marketing?.()).toBe(true);
+    expect(adapter.consentStateGetters.analytics?.()).toBe(false);
+  });
+});
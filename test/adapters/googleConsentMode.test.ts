@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { googleConsentModeAdapter } from '../../src/adapters/googleConsentMode';
+
+function createGtagFake() {
+  const target: { dataLayer: unknown[] } = { dataLayer: [] };
+
+  return {
+    target,
+    // gtag() pushes its arguments object
+    gtag(..._args: unknown[]) {
+      target.dataLayer.push(arguments);
+    },
+  };
+}
+
+describe('googleConsentModeAdapter', () => {
+  it('waits for an update and follows later updates', () => {
+    const { target, gtag } = createGtagFake();
+    gtag('consent', 'default', {
+      functionality_storage: 'granted',
+      analytics_storage: 'denied',
+    });
+    const adapter = googleConsentModeAdapter({ target });
+    const getters = adapter.consentStateGetters;
+    const trigger = vi.fn();
+    const unsubscribe = adapter.onConsentChange(trigger);
+
+    expect(getters.functional?.()).toBeUndefined();
+
+    gtag('consent', 'update', { analytics_storage: 'granted' });
+    expect(trigger).toHaveBeenCalledTimes(1);
+    expect(getters.functional?.()).toBe(true);
+    expect(getters.analytics?.()).toBe(true);
+    expect(getters.marketing?.()).toBe(false);
+
+    gtag('event', 'page_view');
+    expect(trigger).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    expect(Object.getOwnPropertyDescriptor(target.dataLayer, 'push')).toBe(
+      undefined
+    );
+    gtag('consent', 'update', { analytics_storage: 'denied' });
+    expect(trigger).toHaveBeenCalledTimes(1);
+    expect(getters.analytics?.()).toBe(false);
+  });
+
+  it('uses the default as decision when not waiting for an update', () => {
+    const { target, gtag } = createGtagFake();
+    const adapter = googleConsentModeAdapter({ target, waitForUpdate: false });
+    const trigger = vi.fn();
+    adapter.onConsentChange(trigger);
+
+    gtag('consent', 'default', { functionality_storage: 'granted' });
+    expect(trigger).toHaveBeenCalledTimes(1);
+    expect(adapter.consentStateGetters.functional?.()).toBe(true);
+  });
+
+  it('keeps intercepting updates after gtag.js replaces push', () => {
+    const { target, gtag } = createGtagFake();
+    const adapter = googleConsentModeAdapter({ target });
+    const trigger = vi.fn();
+    adapter.onConsentChange(trigger);
+
+    // gtag.js installs its own push when it loads
+    const dataLayer = target.dataLayer;
+    dataLayer.push = (...items: unknown[]) =>
+      Array.prototype.push.apply(dataLayer, items);
+
+    gtag('consent', 'update', { analytics_storage: 'granted' });
+    expect(trigger).toHaveBeenCalledTimes(1);
+    expect(dataLayer).toHaveLength(1);
+    expect(adapter.consentStateGetters.analytics?.()).toBe(true);
+  });
+
+  it('passes pushes through replacements that call the previous push', () => {
+    const { target, gtag } = createGtagFake();
+    const adapter = googleConsentModeAdapter({ target });
+    const trigger = vi.fn();
+    const unsubscribe = adapter.onConsentChange(trigger);
+
+    // Google Tag Manager calls the push function it replaced
+    const dataLayer = target.dataLayer;
+    const processed: unknown[] = [];
+    const previousPush = dataLayer.push;
+    dataLayer.push = (...items: unknown[]) => {
+      const result = previousPush.apply(dataLayer, items);
+      processed.push(...items);
+      return result;
+    };
+
+    gtag('consent', 'update', { analytics_storage: 'granted' });
+    expect(trigger).toHaveBeenCalledTimes(1);
+    expect(dataLayer).toHaveLength(1);
+    expect(processed).toHaveLength(1);
+
+    // The wrapper stays in place since the replacement still calls it
+    unsubscribe();
+    gtag('consent', 'update', { analytics_storage: 'denied' });
+    expect(dataLayer).toHaveLength(2);
+    expect(processed).toHaveLength(2);
+    expect(trigger).toHaveBeenCalledTimes(1);
+  });
+
+  it('intercepts a data layer that replaced the previous one', () => {
+    const { target, gtag } = createGtagFake();
+    const adapter = googleConsentModeAdapter({ target });
+    const trigger = vi.fn();
+    adapter.onConsentChange(trigger);
+
+    target.dataLayer = [];
+    expect(adapter.consentStateGetters.analytics?.()).toBeUndefined();
+
+    gtag('consent', 'update', { analytics_storage: 'granted' });
+    expect(trigger).toHaveBeenCalledTimes(1);
+    expect(adapter.consentStateGetters.analytics?.()).toBe(true);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  oneTrustConsentAdapter,
+  type OneTrustGlobals,
+} from '../../src/adapters/oneTrust';
+
+function createOneTrustFake() {
+  const consentChangedCallbacks: Array<() => void> = [];
+  let isAlertBoxClosed = false;
+
+  const target = Object.assign(new EventTarget(), {
+    OptanonActiveGroups: ',C0001,',
+    OneTrust: {
+      IsAlertBoxClosed: () => isAlertBoxClosed,
+      OnConsentChanged: vi.fn((callback: () => void) => {
+        consentChangedCallbacks.push(callback);
+      }),
+    },
+  }) satisfies OneTrustGlobals & EventTarget;
+
+  return {
+    target,
+    // Mimics the banner being closed with the given categories active
+    decide(activeGroups: string) {
+      isAlertBoxClosed = true;
+      target.OptanonActiveGroups = activeGroups;
+      consentChangedCallbacks.forEach((callback) => callback());
+    },
+    updateGroups(activeGroups: string) {
+      target.OptanonActiveGroups = activeGroups;
+      target.dispatchEvent(new Event('OneTrustGroupsUpdated'));
+    },
+  };
+}
+
+describe('oneTrustConsentAdapter', () => {
+  it('reports consent once the banner is closed and follows updates', () => {
+    const oneTrust = createOneTrustFake();
+    const adapter = oneTrustConsentAdapter({ target: oneTrust.target });
+    const getters = adapter.consentStateGetters;
+    const trigger = vi.fn();
+    const unsubscribe = adapter.onConsentChange(trigger);
+
+    expect(getters.functional?.()).toBeUndefined();
+
+    oneTrust.decide(',C0001,C0002,');
+    expect(trigger).toHaveBeenCalledTimes(1);
+    expect(getters.functional?.()).toBe(true);
+    expect(getters.analytics?.()).toBe(true);
+    expect(getters.marketing?.()).toBe(false);
+
+    oneTrust.updateGroups(',C0001,C0004,');
+    expect(trigger).toHaveBeenCalledTimes(2);
+    expect(getters.analytics?.()).toBe(false);
+    expect(getters.marketing?.()).toBe(true);
+
+    unsubscribe();
+    oneTrust.updateGroups(',C0001,');
+    expect(trigger).toHaveBeenCalledTimes(2);
+  });
+
+  it('registers OnConsentChanged only once across subscriptions', () => {
+    const oneTrust = createOneTrustFake();
+    const adapter = oneTrustConsentAdapter({ target: oneTrust.target });
+
+    adapter.onConsentChange(() => {})();
+    adapter.onConsentChange(() => {});
+
+    expect(oneTrust.target.OneTrust.OnConsentChanged).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses the default categories without interaction when configured', () => {
+    const oneTrust = createOneTrustFake();
+    const adapter = oneTrustConsentAdapter({
+      target: oneTrust.target,
+      requireInteraction: false,
+    });
+
+    expect(adapter.consentStateGetters.functional?.()).toBe(true);
+    expect(adapter.consentStateGetters.analytics?.()).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  tcfConsentAdapter,
+  type TCData,
+  type TcfApi,
+} from '../../src/adapters/tcf';
+
+function createTcfStub() {
+  const listeners = new Map<number, (data: TCData, success: boolean) => void>();
+  let nextListenerId = 1;
+
+  const api = vi.fn<TcfApi>((command, _version, callback, parameter) => {
+    if (command === 'addEventListener') {
+      const listenerId = nextListenerId++;
+      listeners.set(listenerId, (data, success) =>
+        callback({ ...data, listenerId }, success)
+      );
+      callback({ eventStatus: 'cmpuishown', listenerId }, true);
+    } else if (command === 'removeEventListener') {
+      callback(listeners.delete(parameter as number));
+    }
+  });
+
+  return {
+    target: { __tcfapi: api },
+    api,
+    listeners,
+    emit(data: TCData) {
+      listeners.forEach((listener) => listener(data, true));
+    },
+  };
+}
+
+describe('tcfConsentAdapter', () => {
+  it('reports consent once the CMP signals tcloaded and useractioncomplete', () => {
+    const tcf = createTcfStub();
+    const adapter = tcfConsentAdapter({ target: tcf.target });
+    const trigger = vi.fn();
+
+    const unsubscribe = adapter.onConsentChange(trigger);
+    const getters = adapter.consentStateGetters;
+
+    expect(tcf.api).toHaveBeenCalledWith(
+      'addEventListener',
+      2,
+      expect.any(Function)
+    );
+    // The banner is shown, nothing is decided yet
+    expect(trigger).not.toHaveBeenCalled();
+    expect(getters.functional?.()).toBeUndefined();
+
+    tcf.emit({
+      eventStatus: 'tcloaded',
+      purpose: { consents: { 1: true, 8: true, 10: true } },
+    });
+    expect(trigger).toHaveBeenCalledTimes(1);
+    expect(getters.functional?.()).toBe(true);
+    expect(getters.analytics?.()).toBe(true);
+    expect(getters.preferences?.()).toBe(false);
+    expect(getters.marketing?.()).toBe(false);
+
+    tcf.emit({
+      eventStatus: 'useractioncomplete',
+      purpose: { consents: { 1: true, 5: true, 6: true } },
+    });
+    expect(trigger).toHaveBeenCalledTimes(2);
+    expect(getters.analytics?.()).toBe(false);
+    expect(getters.preferences?.()).toBe(true);
+
+    unsubscribe();
+    expect(tcf.api).toHaveBeenCalledWith(
+      'removeEventListener',
+      2,
+      expect.any(Function),
+      1
+    );
+    expect(tcf.listeners.size).toBe(0);
+  });
+
+  it('grants every purpose where GDPR does not apply', () => {
+    const tcf = createTcfStub();
+    const adapter = tcfConsentAdapter({ target: tcf.target });
+    adapter.onConsentChange(() => {});
+
+    tcf.emit({ eventStatus: 'tcloaded', gdprApplies: false });
+
+    expect(adapter.consentStateGetters.marketing?.()).toBe(true);
+  });
+
+  it('requires vendor consent when a vendor ID is set', () => {
+    const tcf = createTcfStub();
+    const adapter = tcfConsentAdapter({ target: tcf.target, vendorId: 42 });
+    adapter.onConsentChange(() => {});
+
+    tcf.emit({
+      eventStatus: 'tcloaded',
+      purpose: { consents: { 1: true } },
+      vendor: { consents: { 42: false } },
+    });
+    expect(adapter.consentStateGetters.functional?.()).toBe(false);
+
+    tcf.emit({
+      eventStatus: 'useractioncomplete',
+      purpose: { consents: { 1: true } },
+      vendor: { consents: { 42: true } },
+    });
+    expect(adapter.consentStateGetters.functional?.()).toBe(true);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  usercentricsConsentAdapter,
+  type UsercentricsEventDetail,
+  type UsercentricsService,
+  type UsercentricsUI,
+} from '../../src/adapters/usercentrics';
+
+function createUsercentricsFake(services: UsercentricsService[] = []) {
+  const target = Object.assign(new EventTarget(), {
+    UC_UI: {
+      isInitialized: () => true,
+      isConsentRequired: () => services.length === 0,
+      getServicesBaseInfo: () => services,
+    } as UsercentricsUI,
+  });
+
+  return {
+    target,
+    emit(detail: UsercentricsEventDetail, eventName = 'ucEvent') {
+      target.dispatchEvent(new CustomEvent(eventName, { detail }));
+    },
+  };
+}
+
+describe('usercentricsConsentAdapter', () => {
+  it('reports consent from explicit events', () => {
+    const usercentrics = createUsercentricsFake();
+    const adapter = usercentricsConsentAdapter({
+      target: usercentrics.target,
+    });
+    const getters = adapter.consentStateGetters;
+    const trigger = vi.fn();
+    const unsubscribe = adapter.onConsentChange(trigger);
+
+    // Consent is still required, so nothing is decided yet
+    expect(getters.functional?.()).toBeUndefined();
+
+    usercentrics.emit({
+      type: 'explicit',
+      ucCategory: { essential: true, functional: 'partial', marketing: true },
+    });
+    expect(trigger).toHaveBeenCalledTimes(1);
+    expect(getters.functional?.()).toBe(true);
+    expect(getters.analytics?.()).toBe(true);
+    // Partially accepted categories are not granted
+    expect(getters.preferences?.()).toBe(false);
+
+    // Implicit events notify but do not replace the explicit decision
+    usercentrics.emit({ type: 'implicit', ucCategory: { essential: true } });
+    expect(trigger).toHaveBeenCalledTimes(2);
+    expect(getters.marketing?.()).toBe(true);
+
+    unsubscribe();
+    usercentrics.emit({ type: 'explicit', ucCategory: { essential: true } });
+    expect(trigger).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads consent given on an earlier page from the services', () => {
+    const usercentrics = createUsercentricsFake([
+      { id: 'a', categorySlug: 'essential', consent: { status: true } },
+      { id: 'b', categorySlug: 'functional', consent: { status: true } },
+      { id: 'c', categorySlug: 'marketing', consent: { status: true } },
+      { id: 'd', categorySlug: 'marketing', consent: { status: false } },
+    ]);
+    const adapter = usercentricsConsentAdapter({
+      target: usercentrics.target,
+    });
+
+    expect(adapter.consentStateGetters.functional?.()).toBe(true);
+    expect(adapter.consentStateGetters.preferences?.()).toBe(true);
+    expect(adapter.consentStateGetters.marketing?.()).toBe(false);
+  });
+
+  it('listens to a custom event name', () => {
+    const usercentrics = createUsercentricsFake();
+    const adapter = usercentricsConsentAdapter({
+      target: usercentrics.target,
+      eventName: 'consentUpdate',
+    });
+    const trigger = vi.fn();
+    adapter.onConsentChange(trigger);
+
+    usercentrics.emit({ type: 'explicit', ucCategory: {} }, 'consentUpdate');
+
+    expect(trigger).toHaveBeenCalledTimes(1);
+  });
+});
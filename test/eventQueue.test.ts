@@ -0,0 +1,93 @@
+import type { Event } from '@sentry/core';
+import { describe, expect, it } from 'vitest';
+
+import { EventQueue } from '../src/eventQueue';
+
+function getMessages(queue: EventQueue): Array<string | undefined> {
+  return queue.snapshot().map(({ event }) => event.message);
+}
+
+describe('EventQueue', () => {
+  it('evicts the oldest event by default', () => {
+    const queue = new EventQueue({ maxEvents: 2 });
+
+    expect(queue.push({ message: 'a' }, {})).toBe(true);
+    expect(queue.push({ message: 'b' }, {})).toBe(true);
+    expect(queue.push({ message: 'c' }, {})).toBe(true);
+
+    expect(getMessages(queue)).toEqual(['b', 'c']);
+    expect(queue.takeDroppedCounts().byReason.max_events).toBe(1);
+  });
+
+  it('rejects the incoming event with drop-newest', () => {
+    const queue = new EventQueue({ maxEvents: 2, dropPolicy: 'drop-newest' });
+
+    queue.push({ message: 'a' }, {});
+    queue.push({ message: 'b' }, {});
+
+    expect(queue.push({ message: 'c' }, {})).toBe(false);
+    expect(getMessages(queue)).toEqual(['a', 'b']);
+  });
+
+  it('evicts the least severe event with keep-by-level', () => {
+    const queue = new EventQueue({
+      maxEvents: 2,
+      dropPolicy: 'keep-by-level',
+    });
+
+    queue.push({ message: 'error', level: 'error' }, {});
+    queue.push({ message: 'info', level: 'info' }, {});
+    queue.push({ message: 'warning', level: 'warning' }, {});
+    expect(getMessages(queue)).toEqual(['error', 'warning']);
+
+    expect(queue.push({ message: 'debug', level: 'debug' }, {})).toBe(false);
+    expect(getMessages(queue)).toEqual(['error', 'warning']);
+
+    // Events without a level are exceptions and rank as errors
+    queue.push({ message: 'exception' }, {});
+    expect(getMessages(queue)).toEqual(['error', 'exception']);
+  });
+
+  it('keeps the queued payloads within maxBytes', () => {
+    const event: Event = { message: 'aaaa' };
+    const size = JSON.stringify(event).length;
+    const queue = new EventQueue({ maxBytes: size * 2 + 1 });
+
+    queue.push(event, {});
+    queue.push({ message: 'bbbb' }, {});
+    queue.push({ message: 'cccc' }, {});
+    expect(getMessages(queue)).toEqual(['bbbb', 'cccc']);
+    expect(queue.bytes).toBe(size * 2);
+
+    expect(queue.push({ message: 'x'.repeat(size * 3) }, {})).toBe(false);
+    expect(queue.length).toBe(2);
+    expect(queue.takeDroppedCounts().byReason.max_bytes).toBe(2);
+  });
+
+  it('discards events older than maxAge', () => {
+    const queue = new EventQueue({ maxAge: 1000 });
+
+    queue.push({ message: 'old' }, {}, 0);
+    queue.push({ message: 'recent' }, {}, 500);
+
+    expect(queue.drain(1200).map(({ event }) => event.message)).toEqual([
+      'recent',
+    ]);
+    expect(queue.takeDroppedCounts().byReason.max_age).toBe(1);
+  });
+
+  it('counts dropped events by category until they are taken', () => {
+    const queue = new EventQueue({ maxEvents: 1 });
+
+    queue.push({ type: 'transaction', transaction: '/checkout' }, {});
+    queue.push({ message: 'a' }, {});
+    queue.push({ message: 'b' }, {});
+
+    expect(queue.takeDroppedCounts()).toEqual({
+      total: 2,
+      byReason: { max_events: 2, max_age: 0, max_bytes: 0 },
+      byCategory: { error: 1, transaction: 1 },
+    });
+    expect(queue.takeDroppedCounts().total).toBe(0);
+  });
+});
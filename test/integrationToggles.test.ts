@@ -0,0 +1,81 @@
+import type { Client, Integration } from '@sentry/core';
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  DEFAULT_INTEGRATION_TOGGLES,
+  IntegrationToggler,
+} from '../src/integrationToggles';
+
+function createClientFake(integrations: Integration[]) {
+  const _integrations = Object.fromEntries(
+    integrations.map((integration) => [integration.name, integration])
+  );
+  return {
+    _integrations,
+    getIntegrationByName: (name: string) => _integrations[name],
+  } as unknown as Client & { _integrations: Record<string, Integration> };
+}
+
+describe('IntegrationToggler', () => {
+  it('stops and restarts integrations with consent', () => {
+    const restart = vi.fn();
+    const disable = vi.fn(() => restart);
+    const client = createClientFake([{ name: 'Replay' }]);
+    const toggler = new IntegrationToggler({
+      Replay: { purpose: 'preferences', disable },
+    });
+
+    toggler.apply(client, { preferences: false });
+    expect(disable).toHaveBeenCalledTimes(1);
+    expect(client.getIntegrationByName('Replay')).toBeUndefined();
+
+    toggler.apply(client, { preferences: true });
+    expect(restart).toHaveBeenCalledTimes(1);
+    expect(client.getIntegrationByName('Replay')).toBeDefined();
+  });
+
+  it('restarts disabled integrations when restoring them', () => {
+    const restart = vi.fn();
+    const client = createClientFake([{ name: 'Replay' }]);
+    const toggler = new IntegrationToggler({
+      Replay: { purpose: 'preferences', disable: () => restart },
+    });
+
+    toggler.apply(client, { preferences: false });
+    toggler.restoreAll(client);
+
+    expect(restart).toHaveBeenCalledTimes(1);
+    expect(client.getIntegrationByName('Replay')).toBeDefined();
+
+    // Restored integrations are disabled again by the next denial
+    toggler.apply(client, { preferences: false });
+    expect(client.getIntegrationByName('Replay')).toBeUndefined();
+  });
+});
+
+describe('DEFAULT_INTEGRATION_TOGGLES', () => {
+  it('matches CaptureConsole events only', () => {
+    const { matchEvent } = DEFAULT_INTEGRATION_TOGGLES.CaptureConsole!;
+    const captureContext = {
+      level: 'error' as const,
+      extra: { arguments: ['x'] },
+    };
+
+    expect(matchEvent!({ logger: 'console' }, {})).toBe(true);
+    expect(
+      matchEvent!(
+        { exception: { values: [{ mechanism: { type: 'console' } }] } },
+        {}
+      )
+    ).toBe(true);
+    expect(matchEvent!({}, { captureContext })).toBe(true);
+
+    expect(matchEvent!({ extra: { arguments: ['x'] } }, {})).toBe(false);
+    expect(
+      matchEvent!(
+        {},
+        { captureContext: { ...captureContext, tags: { job: 'sync' } } }
+      )
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+import { Scope, type Event } from '@sentry/core';
+import { describe, expect, it, vi } from 'vitest';
+
+import { getRequestConsent } from '../../src/node/requestConsent';
+import { serverConsentIntegration } from '../../src/node/serverConsentIntegration';
+
+function createRequestScope(): Scope {
+  const scope = new Scope();
+  scope.setSDKProcessingMetadata({
+    normalizedRequest: { url: '/checkout', headers: {} },
+  });
+  return scope;
+}
+
+function createTransaction(scope: Scope): Event {
+  return {
+    type: 'transaction',
+    transaction: 'GET /checkout',
+    sdkProcessingMetadata: { capturedSpanIsolationScope: scope },
+  };
+}
+
+describe('serverConsentIntegration', () => {
+  it('resolves the consent of a request once and stores it', async () => {
+    const resolveConsent = vi.fn(async () => ({
+      functional: true,
+      analytics: true,
+    }));
+    const integration = serverConsentIntegration({ resolveConsent });
+    const scope = createRequestScope();
+
+    await expect(
+      integration.processEvent(createTransaction(scope), {})
+    ).resolves.toMatchObject({ transaction: 'GET /checkout' });
+    expect(getRequestConsent(scope)).toEqual({
+      functional: true,
+      analytics: true,
+    });
+
+    expect(
+      integration.processEvent(createTransaction(scope), {})
+    ).toMatchObject({ transaction: 'GET /checkout' });
+    expect(resolveConsent).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops events of requests without consent', () => {
+    const integration = serverConsentIntegration();
+    const scope = createRequestScope();
+
+    expect(integration.processEvent(createTransaction(scope), {})).toBeNull();
+    expect(getRequestConsent(scope)).toEqual({});
+  });
+
+  it('sends events outside of requests unchanged', () => {
+    const integration = serverConsentIntegration();
+    const event: Event = { message: 'startup' };
+
+    expect(integration.processEvent(event, {})).toBe(event);
+  });
+});
@@ -0,0 +1,57 @@
+import { Scope } from '@sentry/core';
+import { describe, expect, it, vi } from 'vitest';
+
+import { DEFAULT_DATA_CLASSIFICATION } from '../src/dataClassification';
+import { ScopeDataShadow } from '../src/scopeShadow';
+
+describe('ScopeDataShadow', () => {
+  it('holds classified data back and writes it back on grant', () => {
+    const scope = new Scope();
+    scope.setUser({ id: 'u1' });
+    scope.setTag('utm_source', 'newsletter');
+    scope.setTag('release', '1.0');
+    const shadow = new ScopeDataShadow(DEFAULT_DATA_CLASSIFICATION);
+    shadow.track([scope]);
+
+    shadow.revoke('marketing');
+    expect(scope.getScopeData().user).toEqual({});
+    expect(scope.getScopeData().tags).toEqual({ release: '1.0' });
+
+    // Data set while denied is held back as well
+    scope.setTag('utm_medium', 'email');
+    expect(scope.getScopeData().tags.utm_medium).toBeUndefined();
+
+    shadow.grant('marketing');
+    expect(scope.getScopeData().user).toEqual({ id: 'u1' });
+    expect(scope.getScopeData().tags).toMatchObject({
+      utm_source: 'newsletter',
+      utm_medium: 'email',
+    });
+  });
+
+  it('adds a single listener per scope across dispose and track', () => {
+    const scope = new Scope();
+    const addScopeListener = vi.spyOn(scope, 'addScopeListener');
+    const shadow = new ScopeDataShadow(DEFAULT_DATA_CLASSIFICATION);
+
+    shadow.track([scope]);
+    shadow.dispose();
+    shadow.track([scope]);
+    shadow.dispose();
+    shadow.track([scope]);
+
+    expect(addScopeListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves scopes alone after dispose', () => {
+    const scope = new Scope();
+    const shadow = new ScopeDataShadow(DEFAULT_DATA_CLASSIFICATION);
+    shadow.track([scope]);
+    shadow.revoke('marketing');
+    shadow.dispose();
+
+    scope.setTag('utm_source', 'newsletter');
+
+    expect(scope.getScopeData().tags).toEqual({ utm_source: 'newsletter' });
+  });
+});
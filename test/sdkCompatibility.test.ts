@@ -0,0 +1,130 @@
+import type { Client } from '@sentry/core';
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildPolicyConfig,
+  DEFAULT_CONSENT_POLICY,
+} from '../src/consentPolicy';
+import {
+  adaptPolicyConfig,
+  detectSdkMajorVersion,
+  getAdaptedOptionKeys,
+  getSdkOptionAdapter,
+} from '../src/sdkCompatibility';
+
+function createClientStub(version: string): Client {
+  return {
+    getSdkMetadata: () => ({
+      sdk: { name: 'sentry.javascript.browser', version },
+    }),
+  } as unknown as Client;
+}
+
+const ANALYTICS_DENIED = {
+  functional: true,
+  analytics: false,
+  preferences: true,
+};
+
+function adaptForClient(
+  client: Client,
+  consentState: Record<string, boolean>,
+  originalOptions: Record<string, unknown> = {}
+) {
+  const adapter = getSdkOptionAdapter(detectSdkMajorVersion(client));
+  const config = buildPolicyConfig(
+    DEFAULT_CONSENT_POLICY,
+    consentState,
+    originalOptions
+  );
+  return adaptPolicyConfig(
+    adapter,
+    DEFAULT_CONSENT_POLICY,
+    consentState,
+    config,
+    originalOptions
+  );
+}
+
+describe('detectSdkMajorVersion', () => {
+  it('reads the version from the client metadata', () => {
+    expect(detectSdkMajorVersion(createClientStub('8.55.0'))).toBe(8);
+    expect(detectSdkMajorVersion(createClientStub('9.1.0'))).toBe(9);
+    expect(detectSdkMajorVersion(createClientStub('10.5.0-beta.1'))).toBe(10);
+  });
+
+  it('falls back to the installed SDK version', () => {
+    expect(detectSdkMajorVersion({} as Client)).toBe(8);
+  });
+
+  it('uses the nearest adapter outside the supported range', () => {
+    expect(getSdkOptionAdapter(7).majorVersion).toBe(8);
+    expect(getSdkOptionAdapter(11).majorVersion).toBe(10);
+  });
+});
+
+describe('adaptPolicyConfig', () => {
+  it('disables enableTracing and session tracking on v8', () => {
+    const options = adaptForClient(createClientStub('8.55.0'), {
+      functional: false,
+      analytics: false,
+      preferences: false,
+    });
+
+    expect(options).toMatchObject({
+      tracesSampleRate: 0,
+      tracesSampler: undefined,
+      enableTracing: false,
+      autoSessionTracking: false,
+    });
+  });
+
+  it('leaves out options removed in v9', () => {
+    const client = createClientStub('9.1.0');
+    const options = adaptForClient(client, {
+      functional: false,
+      analytics: false,
+      preferences: false,
+    });
+
+    expect(options).not.toHaveProperty('autoSessionTracking');
+    expect(options).not.toHaveProperty('enableTracing');
+    expect(options).not.toHaveProperty('traceLifecycle');
+    expect(
+      getAdaptedOptionKeys(
+        getSdkOptionAdapter(detectSdkMajorVersion(client)),
+        DEFAULT_CONSENT_POLICY
+      )
+    ).not.toContain('autoSessionTracking');
+  });
+
+  it('stops span streaming and UI profiling on v10', () => {
+    const options = adaptForClient(
+      createClientStub('10.5.0'),
+      ANALYTICS_DENIED
+    );
+
+    expect(options).toMatchObject({
+      tracesSampleRate: 0,
+      traceLifecycle: 'static',
+      profilesSampleRate: 0,
+      profileSessionSampleRate: 0,
+    });
+    expect(options).not.toHaveProperty('enableTracing');
+  });
+
+  it('restores or removes related options once granted on v10', () => {
+    const granted = { ...ANALYTICS_DENIED, analytics: true };
+
+    expect(
+      adaptForClient(createClientStub('10.5.0'), granted, {
+        tracesSampleRate: 1,
+        traceLifecycle: 'stream',
+      })
+    ).toMatchObject({ tracesSampleRate: 1, traceLifecycle: 'stream' });
+
+    const unset = adaptForClient(createClientStub('10.5.0'), granted);
+    expect(unset).not.toHaveProperty('tracesSampleRate');
+    expect(unset).not.toHaveProperty('traceLifecycle');
+  });
+});
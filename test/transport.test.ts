@@ -0,0 +1,113 @@
+import {
+  createEnvelope,
+  type BaseTransportOptions,
+  type Envelope,
+  type Transport,
+} from '@sentry/core';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { ConsentState } from '../src/SentryConsentIntegration';
+import {
+  makeConsentAwareTransport,
+  type ConsentStateSource,
+} from '../src/transport';
+
+function createSourceFake() {
+  let consentState: ConsentState = {};
+  let isReady = false;
+  let isEnforcing = true;
+  const stateListeners: Array<(state: ConsentState) => void> = [];
+  const eventListeners = new Map<string, Array<() => void>>();
+
+  const source = {
+    getConsentState: () => consentState,
+    isReady: () => isReady,
+    isEnforcing: () => isEnforcing,
+    onConsentStateChange: (listener: (state: ConsentState) => void) => {
+      stateListeners.push(listener);
+      return () => {};
+    },
+    on: (eventName: string, listener: () => void) => {
+      eventListeners.set(eventName, [
+        ...(eventListeners.get(eventName) ?? []),
+        listener,
+      ]);
+      return () => {};
+    },
+  } as ConsentStateSource;
+
+  return {
+    source,
+    decide(state: ConsentState) {
+      consentState = state;
+      isReady = true;
+      stateListeners.forEach((listener) => listener(state));
+    },
+    stopEnforcing(eventName: 'suspended' | 'tornDown') {
+      isEnforcing = false;
+      eventListeners.get(eventName)?.forEach((listener) => listener());
+    },
+  };
+}
+
+function createTransport(source: ConsentStateSource) {
+  const sent: Envelope[] = [];
+  const baseTransport = (): Transport => ({
+    send: vi.fn(async (envelope: Envelope) => {
+      sent.push(envelope);
+      return {};
+    }),
+    flush: async () => true,
+  });
+  const transport = makeConsentAwareTransport(
+    baseTransport,
+    source
+  )({
+    recordDroppedEvent: vi.fn(),
+  } as unknown as BaseTransportOptions);
+  return { sent, transport };
+}
+
+function sessionEnvelope(): Envelope {
+  return createEnvelope({}, [
+    [{ type: 'session' }, { sid: 'abc', status: 'ok' }],
+  ] as never);
+}
+
+describe('makeConsentAwareTransport', () => {
+  it('holds envelopes until consent is decided', async () => {
+    const fake = createSourceFake();
+    const { sent, transport } = createTransport(fake.source);
+
+    await transport.send(sessionEnvelope());
+    expect(sent).toHaveLength(0);
+
+    fake.decide({ functional: true });
+    expect(sent).toHaveLength(1);
+  });
+
+  it('drops items whose purpose is denied', async () => {
+    const fake = createSourceFake();
+    const { sent, transport } = createTransport(fake.source);
+    fake.decide({ functional: false });
+
+    await transport.send(sessionEnvelope());
+
+    expect(sent).toHaveLength(0);
+  });
+
+  it.each(['suspended', 'tornDown'] as const)(
+    'forwards held and new envelopes once %s',
+    async (eventName) => {
+      const fake = createSourceFake();
+      const { sent, transport } = createTransport(fake.source);
+      await transport.send(sessionEnvelope());
+
+      fake.stopEnforcing(eventName);
+      expect(sent).toHaveLength(1);
+
+      await transport.send(sessionEnvelope());
+      expect(sent).toHaveLength(2);
+    }
+  );
+});
@@ -0,0 +1,159 @@
+import type { Event } from '@sentry/core';
+import { describe, expect, it } from 'vitest';
+
+import { createUrlSanitizer } from '../src/urlSanitization';
+
+const TRACE_ID = '0123456789abcdef0123456789abcdef';
+const SPAN_ID = '0123456789abcdef';
+
+function sanitizeRequestUrl(
+  url: string,
+  consentState: Record<string, boolean>,
+  sanitize = createUrlSanitizer()
+): string | undefined {
+  return sanitize({ request: { url } }, consentState).request?.url;
+}
+
+describe('createUrlSanitizer', () => {
+  it('drops tracking parameters without marketing consent', () => {
+    const sanitize = createUrlSanitizer();
+    const consentState = { marketing: false, preferences: true };
+
+    expect(
+      sanitizeRequestUrl(
+        'https://shop.example/p?utm_source=news&gclid=abc&page=2#reviews',
+        consentState
+      )
+    ).toBe('https://shop.example/p?page=2#reviews');
+    expect(
+      sanitize(
+        { request: { query_string: { utm_medium: 'mail', page: '2' } } },
+        consentState
+      ).request?.query_string
+    ).toBe('page=2');
+  });
+
+  it('leaves events untouched with marketing and preferences consent', () => {
+    const event: Event = { request: { url: '/p?utm_source=news#top' } };
+
+    expect(
+      createUrlSanitizer()(event, { marketing: true, preferences: true })
+    ).toBe(event);
+  });
+
+  it('strips query values and fragments without preferences consent', () => {
+    expect(
+      sanitizeRequestUrl(
+        'https://shop.example/orders?page=2&sort=asc&debug&utm_source=news#details',
+        { marketing: true, preferences: false }
+      )
+    ).toBe(
+      'https://shop.example/orders?page=[Filtered]&sort=[Filtered]&debug&utm_source=[Filtered]'
+    );
+  });
+
+  it('keeps the values of allowed parameters', () => {
+    const sanitize = createUrlSanitizer({
+      allowedParams: ['page', /^filter_/, 'utm_source'],
+    });
+
+    expect(
+      sanitizeRequestUrl(
+        '/search?page=2&filter_color=red&q=shoes&utm_source=news',
+        {},
+        sanitize
+      )
+    ).toBe('/search?page=2&filter_color=red&q=[Filtered]');
+  });
+
+  it('collapses route IDs without preferences consent', () => {
+    expect(
+      sanitizeRequestUrl(
+        'https://api.example:8443/users/42/orders/3f2a9c1e-1234-4abc-8def-0123456789ab/items/01ARZ3NDEKTSV4RRFFQ69G5FAV/files/deadbeefdeadbeef/v2',
+        {}
+      )
+    ).toBe(
+      'https://api.example:8443/users/:id/orders/:id/items/:id/files/:id/v2'
+    );
+    expect(sanitizeRequestUrl('/users/42', { preferences: true })).toBe(
+      '/users/42'
+    );
+    expect(
+      sanitizeRequestUrl(
+        '/users/42',
+        {},
+        createUrlSanitizer({ collapseRouteIds: false })
+      )
+    ).toBe('/users/42');
+  });
+
+  it('sanitizes breadcrumbs, spans and the transaction name', () => {
+    const event: Event = {
+      type: 'transaction',
+      transaction: 'GET /users/42?token=abc',
+      breadcrumbs: [
+        {
+          category: 'fetch',
+          data: {
+            url: '/api/users/42?utm_source=news&id=1',
+            method: 'GET',
+          },
+        },
+        {
+          category: 'navigation',
+          data: { from: '/cart?step=2', to: '/checkout#payment' },
+        },
+        { message: 'no data' },
+      ],
+      spans: [
+        {
+          span_id: SPAN_ID,
+          trace_id: TRACE_ID,
+          start_timestamp: 0,
+          description: 'GET https://api.example/users/42?key=secret',
+          data: {
+            'url.full': 'https://api.example/users/42?key=secret',
+            'http.query': '?key=secret&utm_medium=mail',
+            'http.fragment': '#top',
+            'http.method': 'GET',
+          },
+        },
+      ],
+      contexts: {
+        trace: {
+          trace_id: TRACE_ID,
+          span_id: SPAN_ID,
+          data: { url: '/checkout/42' },
+        },
+      },
+    };
+
+    const sanitized = createUrlSanitizer()(event, {});
+
+    expect(sanitized.transaction).toBe('GET /users/:id?token=[Filtered]');
+    expect(sanitized.breadcrumbs).toEqual([
+      {
+        category: 'fetch',
+        data: { url: '/api/users/:id?id=[Filtered]', method: 'GET' },
+      },
+      {
+        category: 'navigation',
+        data: { from: '/cart?step=[Filtered]', to: '/checkout' },
+      },
+      { message: 'no data' },
+    ]);
+    expect(sanitized.spans?.[0]?.description).toBe(
+      'GET https://api.example/users/:id?key=[Filtered]'
+    );
+    expect(sanitized.spans?.[0]?.data).toEqual({
+      'url.full': 'https://api.example/users/:id?key=[Filtered]',
+      'http.query': '?key=[Filtered]',
+      'http.method': 'GET',
+    });
+    expect(sanitized.contexts?.trace?.data).toEqual({ url: '/checkout/:id' });
+
+    // The original event is not modified
+    expect(event.transaction).toBe('GET /users/42?token=abc');
+    expect(event.spans?.[0]?.data?.['http.fragment']).toBe('#top');
+  });
+});